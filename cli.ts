@@ -0,0 +1,9 @@
+#!/usr/bin/env -S npx tsx
+import dotenv from 'dotenv';
+import { runCli } from './src/cli/run';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
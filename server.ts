@@ -0,0 +1,43 @@
+import dotenv from 'dotenv';
+import express from 'express';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import { createApp } from './src/server/app';
+import { createBackendsFromEnv } from './src/server/backends';
+import { openDatabase } from './src/server/db';
+import { createHistoryStore } from './src/server/history';
+import { createStyleStore } from './src/server/styles';
+import { createUsageStore, quotaLimitsFromEnv } from './src/server/usage';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+async function startServer() {
+  const db = openDatabase(process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'studio.db'));
+  const app = createApp({
+    backends: createBackendsFromEnv(),
+    history: createHistoryStore(db),
+    styles: createStyleStore(db),
+    usage: createUsageStore(db, quotaLimitsFromEnv()),
+  });
+  const PORT = Number(process.env.PORT) || 3000;
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
@@ -3,101 +3,301 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { Upload, Image as ImageIcon, Sparkles, Download, RefreshCw, AlertCircle, Palette, Pencil, Zap, PencilLine, LayoutGrid, Shirt } from 'lucide-react';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { useDropzone, type FileRejection } from 'react-dropzone';
+import { Upload, Image as ImageIcon, Sparkles, Download, RefreshCw, AlertCircle, LayoutGrid, Shirt, History, Layers, Grid3x3, Library, SquareDashedMousePointer, X, Copy, BookMarked, Film, Gauge, Languages } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-import { transformToArtisticStyle, swapOutfit, type ArtisticStyle } from './services/geminiService';
+import { cn, randomSeed } from './lib/utils';
+import { useStyles } from './hooks/useStyles';
+import { DEFAULT_STYLE_ID, MAX_IMAGE_BYTES, type ArtisticStyle } from './shared/styles';
+import { RECIPE_HASH_KEY, createRecipe, recipeFromHash, type Recipe, type RecipeStyle } from './shared/recipes';
+import { DEFAULT_STYLE_PARAMETERS, type StyleParameters } from './shared/parameters';
+import { parseDataUrl } from './shared/dataUrl';
+import { transformToArtisticStyle, swapOutfit, isAbortError, type StyleId, type TransformResult } from './services/geminiService';
+import { describeError, describeGenerationError, summarizeParameters } from './i18n/describe';
+import Gallery from './components/Gallery';
+import BatchQueue from './components/BatchQueue';
+import ClipStylizer from './components/ClipStylizer';
+import UsagePanel from './components/UsagePanel';
+import ModelPicker from './components/ModelPicker';
+import StyleMatrix from './components/StyleMatrix';
+import StyleLibrary from './components/StyleLibrary';
+import StyleIcon from './components/StyleIcon';
+import StylePicker from './components/StylePicker';
+import StyleControls from './components/StyleControls';
+import RefinePanel from './components/RefinePanel';
+import MaskEditor from './components/MaskEditor';
+import ImagePreprocessor from './components/ImagePreprocessor';
+import GarmentPicker from './components/GarmentPicker';
+import CandidatePicker from './components/CandidatePicker';
+import RecipeMenu from './components/RecipeMenu';
+import HighlightedText from './components/HighlightedText';
+import ExportDialog from './components/ExportDialog';
+import ComparisonViewer from './components/ComparisonViewer';
+import { useVersionHistory } from './hooks/useVersionHistory';
+import { useUsage } from './hooks/useUsage';
+import { useModels } from './hooks/useModels';
+import { useI18n } from './hooks/useI18n';
+import { LOCALES, isLocale } from './i18n';
+import { maskableImage } from './lib/mask';
+import { mapWithConcurrency } from './lib/concurrency';
+import { checkFileSize, type PreprocessedImage } from './lib/preprocess';
+import type { ExportSource } from './lib/export';
 
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-const STYLES: { id: ArtisticStyle; label: string; icon: React.ElementType; description: string }[] = [
-  { id: 'watercolor', label: 'Watercolor', icon: Sparkles, description: 'Soft splashes and vibrant drips' },
-  { id: 'oil', label: 'Oil Painting', icon: Palette, description: 'Thick strokes and rich textures' },
-  { id: 'charcoal', label: 'Charcoal', icon: Pencil, description: 'Rough, dramatic hand-drawn lines' },
-  { id: 'cyberpunk', label: 'Cyberpunk', icon: Zap, description: 'Neon glows and futuristic vibes' },
-  { id: 'pencil', label: 'Pencil', icon: PencilLine, description: 'Classic graphite sketch' },
-  { id: 'popart', label: 'Pop Art', icon: LayoutGrid, description: 'Bold colors and comic patterns' },
-];
+const VARIANT_CHOICES = [1, 2, 3, 4];
 
 export default function App() {
+  const { styles, isLoaded: stylesLoaded, getStyle, saveStyle } = useStyles();
+  const usage = useUsage();
+  const { models, isLoaded: modelsLoaded, selectedModel, setSelectedModel } = useModels();
+  const { locale, setLocale, t, styleLabel } = useI18n();
   const [originalImage, setOriginalImage] = useState<string | null>(null);
-  const [transformedImage, setTransformedImage] = useState<string | null>(null);
-  const [selectedStyle, setSelectedStyle] = useState<ArtisticStyle>('watercolor');
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [originalName, setOriginalName] = useState<string | null>(null);
+  const versionHistory = useVersionHistory();
+  const transformedImage = versionHistory.current?.image ?? null;
+  const [selectedStyle, setSelectedStyle] = useState<StyleId>(DEFAULT_STYLE_ID);
+  const [mask, setMask] = useState<string | null>(null);
+  const [isMasking, setIsMasking] = useState(false);
+  const [styleParameters, setStyleParameters] = useState<StyleParameters>(DEFAULT_STYLE_PARAMETERS);
+  const [resultParameters, setResultParameters] = useState<StyleParameters | null>(null);
   const [outfitDescription, setOutfitDescription] = useState<string>('');
+  const [garments, setGarments] = useState<string[]>([]);
+  const [variantCount, setVariantCount] = useState(1);
+  const [candidates, setCandidates] = useState<TransformResult[]>([]);
+  const [selectedCandidateId, setSelectedCandidateId] = useState<number | null>(null);
   const [mode, setMode] = useState<'style' | 'outfit'>('style');
+  const [isComparing, setIsComparing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [view, setView] = useState<'studio' | 'batch' | 'clips' | 'styles' | 'gallery'>('studio');
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const abortController = useRef<AbortController | null>(null);
+
+  const [promptOverride, setPromptOverride] = useState<RecipeStyle | null>(null);
+  const [recipeNotice, setRecipeNotice] = useState<string | null>(null);
+
+  // A recipe's style snapshot wins over the local style when their prompts differ.
+  const currentStyle: ArtisticStyle | undefined = promptOverride
+    ? { ...promptOverride, builtIn: false }
+    : getStyle(selectedStyle);
+  const currentStyleLabel = currentStyle ? styleLabel(currentStyle) : '';
+
+  const labelOf = (id: StyleId) => {
+    const style = getStyle(id);
+    return style ? styleLabel(style) : id;
+  };
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
+  const clearResult = () => {
+    versionHistory.start(null);
+    setCandidates([]);
+    setSelectedCandidateId(null);
+  };
+
+  const onDrop = useCallback((acceptedFiles: File[], rejections: FileRejection[]) => {
+    const file = acceptedFiles[0] ?? rejections[0]?.file;
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = () => {
-      setOriginalImage(reader.result as string);
-      setTransformedImage(null);
+    try {
+      checkFileSize(file);
+      setPendingFile(file);
       setError(null);
-    };
-    reader.readAsDataURL(file);
-  }, []);
+    } catch (err) {
+      setError(describeError(err, t));
+    }
+  }, [t]);
+
+  const handlePreprocessed = (image: PreprocessedImage) => {
+    setOriginalImage(image.dataUrl);
+    setOriginalName(pendingFile?.name ?? null);
+    setPendingFile(null);
+    setMask(null);
+    setIsMasking(false);
+    clearResult();
+    setError(null);
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: { 'image/*': [] },
+    maxSize: MAX_IMAGE_BYTES,
     multiple: false,
   });
 
   const handleTransform = async () => {
     if (!originalImage) return;
 
+    if (mode === 'outfit' && !outfitDescription.trim() && garments.length === 0) {
+      setError(t('outfit.missing'));
+      return;
+    }
+
+    const controller = new AbortController();
+    abortController.current = controller;
     setIsProcessing(true);
     setError(null);
 
     try {
-      const [mimeInfo, base64Data] = originalImage.split(',');
-      const mimeType = mimeInfo.match(/:(.*?);/)?.[1] || 'image/png';
-      
-      let result: string | null = null;
-      if (mode === 'style') {
-        result = await transformToArtisticStyle(base64Data, mimeType, selectedStyle);
-      } else {
-        if (!outfitDescription.trim()) {
-          setError("Please provide an outfit description.");
-          setIsProcessing(false);
-          return;
-        }
-        result = await swapOutfit(base64Data, mimeType, outfitDescription);
-      }
+      const { mimeType, data: base64Data } = parseDataUrl(mask ? await maskableImage(originalImage) : originalImage);
+      const options = {
+        mask,
+        model: selectedModel ?? undefined,
+        signal: controller.signal,
+        onRetry: (_error: unknown, attempt: number, delayMs: number) => {
+          setRetryNotice(t('editor.retrying', { seconds: Math.ceil(delayMs / 1000), attempt: attempt + 1 }));
+        },
+      };
+
+      const seeds = Array.from({ length: variantCount }, randomSeed);
+      const settled = await mapWithConcurrency(seeds, seeds.length, (seed) => (mode === 'style'
+        ? transformToArtisticStyle(base64Data, mimeType, selectedStyle, { ...options, seed, parameters: styleParameters, promptTemplate: promptOverride?.promptTemplate })
+        : swapOutfit(base64Data, mimeType, outfitDescription, { ...options, seed, garments })));
 
-      if (result) {
-        setTransformedImage(result);
-      } else {
-        setError(`Failed to generate the ${mode === 'style' ? selectedStyle : 'outfit swap'}. Please try again.`);
+      const results = settled.flatMap((outcome) => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+      const failures = settled.flatMap((outcome) => (outcome.status === 'rejected' ? [outcome.reason] : []));
+      if (results.length === 0) throw failures[0];
+      if (failures.length > 0 && !controller.signal.aborted) {
+        setError(t('editor.variantsFailed', { failed: failures.length, total: seeds.length, reason: describeGenerationError(failures[0], t) }));
       }
+
+      setCandidates(results);
+      selectCandidate(results[0]);
+      setResultParameters(mode === 'style' ? styleParameters : null);
     } catch (err) {
-      setError("An error occurred while processing the image. Please check your connection and try again.");
-      console.error(err);
+      if (!isAbortError(err)) {
+        setError(describeGenerationError(err, t));
+        console.error(err);
+      }
     } finally {
+      abortController.current = null;
+      setRetryNotice(null);
       setIsProcessing(false);
     }
   };
 
-  const handleDownload = () => {
-    if (!transformedImage) return;
-    const link = document.createElement('a');
-    link.href = transformedImage;
-    link.download = 'watercolor-sketch.png';
-    link.click();
+  const cancelTransform = () => abortController.current?.abort();
+
+  // Esc cancels a running generation unless something focused (like the comparison viewer) handled it.
+  useEffect(() => {
+    if (!isProcessing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !e.defaultPrevented) abortController.current?.abort();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isProcessing]);
+
+  const applyRecipe = useCallback((recipe: Recipe) => {
+    setMode(recipe.mode);
+    setView('studio');
+    setIsComparing(false);
+    clearResult();
+    setVariantCount(recipe.variants);
+    if (recipe.parameters) setStyleParameters(recipe.parameters);
+    if (recipe.outfitDescription !== null) setOutfitDescription(recipe.outfitDescription);
+    if (recipe.style) {
+      const existing = getStyle(recipe.style.id);
+      setSelectedStyle(existing ? existing.id : DEFAULT_STYLE_ID);
+      setPromptOverride(existing?.promptTemplate === recipe.style.promptTemplate ? null : recipe.style);
+    }
+    if (!recipe.model) {
+      setRecipeNotice(t('recipe.loaded'));
+    } else if (models.some((model) => model.id === recipe.model)) {
+      setSelectedModel(recipe.model);
+      setRecipeNotice(t('recipe.loadedWithModel', { model: recipe.model }));
+    } else {
+      setRecipeNotice(t('recipe.modelUnavailable', { model: recipe.model }));
+    }
+  }, [getStyle, models, setSelectedModel, t]);
+
+  // Open `#recipe=...` links once custom styles and models are known, so a
+  // shared custom style can be matched against the local library and the
+  // recipe's model picked if this server offers it.
+  useEffect(() => {
+    if (!stylesLoaded || !modelsLoaded) return;
+    const loadFromHash = () => {
+      if (!new URLSearchParams(window.location.hash.slice(1)).has(RECIPE_HASH_KEY)) return;
+      try {
+        const recipe = recipeFromHash(window.location.hash);
+        if (recipe) applyRecipe(recipe);
+      } catch (err) {
+        setRecipeNotice(err instanceof Error ? err.message : String(err));
+      }
+      // Drop the hash so later edits aren't mistaken for the shared settings.
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    };
+    loadFromHash();
+    window.addEventListener('hashchange', loadFromHash);
+    return () => window.removeEventListener('hashchange', loadFromHash);
+  }, [stylesLoaded, modelsLoaded, applyRecipe]);
+
+  const saveRecipeStyle = async () => {
+    if (!promptOverride) return;
+    try {
+      const { id: _id, ...input } = promptOverride;
+      const saved = await saveStyle(input);
+      setSelectedStyle(saved.id);
+      setPromptOverride(null);
+    } catch (err) {
+      setRecipeNotice(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const currentRecipe = createRecipe({
+    mode,
+    style: mode === 'style' && currentStyle
+      ? { id: currentStyle.id, label: currentStyle.label, icon: currentStyle.icon, description: currentStyle.description, promptTemplate: currentStyle.promptTemplate }
+      : null,
+    parameters: mode === 'style' ? styleParameters : null,
+    outfitDescription: mode === 'outfit' ? outfitDescription : null,
+    // The model that made the result on screen; before there is one, the model that would.
+    model: versionHistory.current?.generation?.model ?? selectedModel,
+    variants: variantCount,
+  });
+
+  const selectCandidate = (candidate: TransformResult) => {
+    setSelectedCandidateId(candidate.generation.id);
+    versionHistory.start(candidate.image, mode === 'style' ? t('version.effect', { style: currentStyleLabel }) : t('version.outfit'), candidate.generation);
   };
 
+  // Refinements keep the style of the result they started from.
+  const rootGeneration = versionHistory.versions.find((version) => !version.parentId)?.generation;
+  const exportStyle = rootGeneration ? rootGeneration.style : mode === 'style' ? selectedStyle : null;
+  const exportSource: ExportSource | null = versionHistory.current && originalImage ? {
+    result: versionHistory.current.image,
+    original: originalImage,
+    metadata: {
+      title: versionHistory.current.label,
+      style: exportStyle,
+      prompt: versionHistory.current.generation?.prompt ?? null,
+      model: versionHistory.current.generation?.model ?? null,
+      seed: versionHistory.current.generation?.seed ?? null,
+      createdAt: new Date(versionHistory.current.createdAt).toISOString(),
+    },
+  } : null;
+
+  const processingMessage = [
+    mode === 'style' ? t('editor.creating', { style: currentStyleLabel }) : t('editor.swapping'),
+    variantCount > 1 ? t('editor.variantCount', { count: variantCount }) : '',
+  ].filter(Boolean).join(' ');
+
+  // Screen readers hear progress and results through the live regions at the end of the page.
+  const statusMessage = isProcessing
+    ? [processingMessage, retryNotice].filter(Boolean).join(' ')
+    : transformedImage
+      ? mode === 'style' ? t('editor.resultReady', { style: labelOf(exportStyle ?? selectedStyle) }) : t('editor.resultReadyOutfit')
+      : '';
+
   const reset = () => {
+    cancelTransform();
+    setIsComparing(false);
+    setMask(null);
+    setIsMasking(false);
     setOriginalImage(null);
-    setTransformedImage(null);
+    setOriginalName(null);
+    setPendingFile(null);
+    clearResult();
     setError(null);
   };
 
@@ -110,35 +310,91 @@ export default function App() {
             <div className="w-8 h-8 bg-emerald-500 rounded-lg flex items-center justify-center text-white">
               <Sparkles size={18} />
             </div>
-            <h1 className="font-semibold text-lg tracking-tight">Artistic Studio</h1>
+            <h1 className="font-semibold text-lg tracking-tight">{t('app.title')}</h1>
           </div>
           <div className="flex items-center gap-4">
-            <div className="flex bg-gray-100 p-1 rounded-xl">
+            <nav aria-label={t('nav.label')} className="flex bg-gray-100 p-1 rounded-xl">
               <button
-                onClick={() => { setMode('style'); setTransformedImage(null); }}
+                onClick={() => { setMode('style'); setView('studio'); clearResult(); }}
+                aria-pressed={view === 'studio' && mode === 'style'}
                 className={cn(
                   "px-4 py-1.5 rounded-lg text-sm font-medium transition-all",
-                  mode === 'style' ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
+                  view === 'studio' && mode === 'style' ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
                 )}
               >
-                Artistic Styles
+                {t('nav.styles')}
               </button>
               <button
-                onClick={() => { setMode('outfit'); setTransformedImage(null); }}
+                onClick={() => { setMode('outfit'); setView('studio'); setIsComparing(false); clearResult(); }}
+                aria-pressed={view === 'studio' && mode === 'outfit'}
                 className={cn(
                   "px-4 py-1.5 rounded-lg text-sm font-medium transition-all",
-                  mode === 'outfit' ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
+                  view === 'studio' && mode === 'outfit' ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
                 )}
               >
-                Outfit Swap
+                {t('nav.outfit')}
               </button>
-            </div>
-            {originalImage && (
+              <button
+                onClick={() => setView('batch')}
+                aria-pressed={view === 'batch'}
+                className={cn(
+                  "px-4 py-1.5 rounded-lg text-sm font-medium transition-all flex items-center gap-1.5",
+                  view === 'batch' ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
+                )}
+              >
+                <Layers size={14} aria-hidden /> {t('nav.batch')}
+              </button>
+              <button
+                onClick={() => setView('clips')}
+                aria-pressed={view === 'clips'}
+                className={cn(
+                  "px-4 py-1.5 rounded-lg text-sm font-medium transition-all flex items-center gap-1.5",
+                  view === 'clips' ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
+                )}
+              >
+                <Film size={14} aria-hidden /> {t('nav.clips')}
+              </button>
+              <button
+                onClick={() => setView('styles')}
+                aria-pressed={view === 'styles'}
+                className={cn(
+                  "px-4 py-1.5 rounded-lg text-sm font-medium transition-all flex items-center gap-1.5",
+                  view === 'styles' ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
+                )}
+              >
+                <Library size={14} aria-hidden /> {t('nav.library')}
+              </button>
+              <button
+                onClick={() => setView('gallery')}
+                aria-pressed={view === 'gallery'}
+                className={cn(
+                  "px-4 py-1.5 rounded-lg text-sm font-medium transition-all flex items-center gap-1.5",
+                  view === 'gallery' ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
+                )}
+              >
+                <History size={14} aria-hidden /> {t('nav.gallery')}
+              </button>
+            </nav>
+            <label className="relative flex items-center text-gray-500">
+              <span className="sr-only">{t('app.language')}</span>
+              <Languages size={14} className="absolute left-2.5 pointer-events-none" aria-hidden />
+              <select
+                value={locale}
+                onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+                className="pl-7 pr-2 py-1.5 rounded-lg border border-black/10 bg-white text-sm font-medium outline-none focus:border-emerald-500"
+              >
+                {LOCALES.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <UsagePanel usage={usage} />
+            {originalImage && view === 'studio' && (
               <button 
                 onClick={reset}
                 className="text-sm font-medium text-gray-500 hover:text-black transition-colors"
               >
-                Start Over
+                {t('nav.startOver')}
               </button>
             )}
           </div>
@@ -146,8 +402,48 @@ export default function App() {
       </header>
 
       <main className="max-w-5xl mx-auto px-6 py-12">
+        {usage.quota.reached && (
+          <div role="status" className="mb-8 px-4 py-3 rounded-2xl bg-amber-50 border border-amber-200 flex items-center gap-3 text-sm text-amber-800">
+            <Gauge size={16} className="shrink-0" />
+            <p className="flex-1">
+              {t(usage.quota.reached === 'perUser' ? 'quota.user' : 'quota.total')}{' '}
+              {t('quota.paused', {
+                used: usage.quota.used[usage.quota.reached === 'perUser' ? 'user' : 'total'],
+                limit: usage.quota.limits[usage.quota.reached] ?? '',
+                time: new Date(usage.quota.resetsAt).toLocaleString(locale, { weekday: 'short', hour: '2-digit', minute: '2-digit' }),
+              })}
+            </p>
+          </div>
+        )}
+        {recipeNotice && (
+          <div role="status" className="mb-8 px-4 py-3 rounded-2xl bg-white border border-black/5 flex items-center gap-3 text-sm text-gray-600">
+            <BookMarked size={16} className="text-emerald-500 shrink-0" />
+            <p className="flex-1">{recipeNotice}</p>
+            <button
+              onClick={() => setRecipeNotice(null)}
+              className="p-1 rounded-lg text-gray-400 hover:text-black transition-colors"
+              aria-label={t('common.dismiss')}
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )}
         <AnimatePresence mode="wait">
-          {!originalImage ? (
+          {view === 'gallery' ? (
+            <Gallery />
+          ) : view === 'batch' ? (
+            <BatchQueue />
+          ) : view === 'clips' ? (
+            <ClipStylizer />
+          ) : view === 'styles' ? (
+            <StyleLibrary />
+          ) : pendingFile ? (
+            <ImagePreprocessor
+              file={pendingFile}
+              onConfirm={handlePreprocessed}
+              onCancel={() => setPendingFile(null)}
+            />
+          ) : !originalImage ? (
             <motion.div
               key="upload"
               initial={{ opacity: 0, y: 20 }}
@@ -157,55 +453,40 @@ export default function App() {
             >
               <div className="text-center mb-10">
                 <h2 className="text-4xl font-bold tracking-tight mb-4">
-                  {mode === 'style' ? (
-                    <>Turn your photos into <span className="text-emerald-500">art</span>.</>
-                  ) : (
-                    <>Swap your <span className="text-emerald-500">outfit</span> instantly.</>
-                  )}
+                  {mode === 'style'
+                    ? <HighlightedText text={t('upload.styleHeading')} highlight={t('upload.styleHighlight')} />
+                    : <HighlightedText text={t('upload.outfitHeading')} highlight={t('upload.outfitHighlight')} />}
                 </h2>
                 <p className="text-gray-500 text-lg">
-                  {mode === 'style' 
-                    ? "Upload an image and choose an artistic style to transform it."
-                    : "Upload a photo of yourself and describe the new outfit you want to wear."}
+                  {mode === 'style' ? t('upload.styleIntro') : t('upload.outfitIntro')}
                 </p>
               </div>
 
               {mode === 'style' ? (
-                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 mb-8">
-                  {STYLES.map((style) => (
-                    <button
-                      key={style.id}
-                      onClick={() => setSelectedStyle(style.id)}
-                      className={cn(
-                        "p-4 rounded-2xl border transition-all text-left flex flex-col gap-2 group",
-                        selectedStyle === style.id
-                          ? "border-emerald-500 bg-emerald-50 ring-1 ring-emerald-500"
-                          : "border-gray-200 hover:border-emerald-300 hover:bg-gray-50"
-                      )}
-                    >
-                      <div className={cn(
-                        "w-10 h-10 rounded-xl flex items-center justify-center transition-colors",
-                        selectedStyle === style.id ? "bg-emerald-500 text-white" : "bg-gray-100 text-gray-400 group-hover:text-emerald-500"
-                      )}>
-                        <style.icon size={20} />
-                      </div>
-                      <div>
-                        <p className="font-semibold text-sm">{style.label}</p>
-                        <p className="text-[10px] text-gray-400 leading-tight">{style.description}</p>
-                      </div>
-                    </button>
-                  ))}
-                </div>
-              ) : (
                 <div className="mb-8">
-                  <label className="block text-sm font-semibold text-gray-700 mb-2">Describe the new outfit</label>
-                  <textarea
-                    value={outfitDescription}
-                    onChange={(e) => setOutfitDescription(e.target.value)}
-                    placeholder="e.g., A formal black tuxedo with a red bow tie, or a casual summer dress with floral patterns"
-                    className="w-full p-4 rounded-2xl border border-gray-200 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-all resize-none h-32"
+                  <StylePicker
+                    variant="large"
+                    styles={styles}
+                    selected={selectedStyle}
+                    onSelect={(style) => { setSelectedStyle(style); setPromptOverride(null); }}
                   />
                 </div>
+              ) : (
+                <div className="mb-8 space-y-6">
+                  <GarmentPicker value={garments} onChange={setGarments} />
+                  <div>
+                    <label htmlFor="outfit-description" className="block text-sm font-semibold text-gray-700 mb-2">
+                      {t('outfit.describe')}{garments.length > 0 && <span className="font-normal text-gray-400"> {t('common.optional')}</span>}
+                    </label>
+                    <textarea
+                      id="outfit-description"
+                      value={outfitDescription}
+                      onChange={(e) => setOutfitDescription(e.target.value)}
+                      placeholder={garments.length > 0 ? t('outfit.placeholderWithGarments') : t('outfit.placeholder')}
+                      className="w-full p-4 rounded-2xl border border-gray-200 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-all resize-none h-32"
+                    />
+                  </div>
+                </div>
               )}
 
               <div
@@ -219,13 +500,18 @@ export default function App() {
               >
                 <input {...getInputProps()} />
                 <div className="w-16 h-16 bg-white rounded-2xl shadow-sm border border-black/5 flex items-center justify-center group-hover:scale-110 transition-transform duration-300">
-                  <Upload className="text-gray-400 group-hover:text-emerald-500 transition-colors" size={24} />
+                  <Upload className="text-gray-400 group-hover:text-emerald-500 transition-colors" size={24} aria-hidden />
                 </div>
                 <div className="text-center">
-                  <p className="font-medium text-gray-900">Click or drag image here</p>
-                  <p className="text-sm text-gray-400 mt-1">PNG, JPG or WEBP up to 10MB</p>
+                  <p className="font-medium text-gray-900">{t('upload.drop')}</p>
+                  <p className="text-sm text-gray-500 mt-1">{t('upload.limits')}</p>
                 </div>
               </div>
+              {error && (
+                <div className="flex items-center justify-center gap-2 text-red-500 text-sm font-medium mt-4">
+                  <AlertCircle size={16} /> {error}
+                </div>
+              )}
             </motion.div>
           ) : (
             <motion.div
@@ -239,164 +525,310 @@ export default function App() {
                 {mode === 'style' ? (
                   <div className="space-y-4">
                     <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
-                      <LayoutGrid size={14} /> Choose Style
+                      <LayoutGrid size={14} aria-hidden /> {t('editor.chooseStyle')}
                     </span>
-                    <div className="grid grid-cols-2 gap-3">
-                      {STYLES.map((style) => (
-                        <button
-                          key={style.id}
-                          onClick={() => {
-                            setSelectedStyle(style.id);
-                            setTransformedImage(null);
-                          }}
-                          className={cn(
-                            "p-3 rounded-xl border transition-all text-left flex flex-col gap-1 group",
-                            selectedStyle === style.id
-                              ? "border-emerald-500 bg-emerald-50 ring-1 ring-emerald-500"
-                              : "border-gray-200 hover:border-emerald-300 hover:bg-gray-50"
+                    <StylePicker
+                      variant="compact"
+                      styles={styles}
+                      selected={selectedStyle}
+                      onSelect={(style) => {
+                        if (style === selectedStyle && !promptOverride) return;
+                        setSelectedStyle(style);
+                        setPromptOverride(null);
+                        clearResult();
+                      }}
+                      onApply={() => {
+                        if (!isProcessing && !usage.quota.reached) handleTransform();
+                      }}
+                    />
+                    {promptOverride && (
+                      <div className="p-3 rounded-xl bg-emerald-50 border border-emerald-100 space-y-2">
+                        <p className="text-xs text-emerald-800">
+                          {t('editor.recipeOverride', { name: promptOverride.label })}
+                        </p>
+                        <div className="flex gap-3">
+                          <button
+                            onClick={saveRecipeStyle}
+                            className="text-xs font-semibold text-emerald-700 hover:text-emerald-900"
+                          >
+                            {t('editor.saveToLibrary')}
+                          </button>
+                          {getStyle(promptOverride.id) && (
+                            <button
+                              onClick={() => { setPromptOverride(null); clearResult(); }}
+                              className="text-xs font-semibold text-gray-500 hover:text-black"
+                            >
+                              {t('editor.useMine')}
+                            </button>
                           )}
-                        >
-                          <div className={cn(
-                            "w-8 h-8 rounded-lg flex items-center justify-center transition-colors",
-                            selectedStyle === style.id ? "bg-emerald-500 text-white" : "bg-gray-100 text-gray-400 group-hover:text-emerald-500"
-                          )}>
-                            <style.icon size={16} />
-                          </div>
-                          <p className="font-semibold text-xs">{style.label}</p>
-                        </button>
-                      ))}
-                    </div>
+                        </div>
+                      </div>
+                    )}
+                    <button
+                      onClick={() => setIsComparing(true)}
+                      disabled={isComparing || !!promptOverride}
+                      className="w-full px-4 py-2.5 rounded-xl border border-black/10 text-sm font-semibold flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      <Grid3x3 size={16} aria-hidden /> {t('editor.compareAll')}
+                    </button>
+                    <StyleControls value={styleParameters} onChange={setStyleParameters} disabled={isProcessing} />
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
-                      <Shirt size={14} /> Outfit Description
-                    </span>
+                    <GarmentPicker
+                      value={garments}
+                      onChange={(value) => {
+                        setGarments(value);
+                        clearResult();
+                      }}
+                      disabled={isProcessing}
+                    />
+                    <label htmlFor="outfit-description" className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+                      <Shirt size={14} aria-hidden /> {t('outfit.heading')}
+                    </label>
                     <textarea
+                      id="outfit-description"
                       value={outfitDescription}
                       onChange={(e) => {
                         setOutfitDescription(e.target.value);
-                        setTransformedImage(null);
+                        clearResult();
                       }}
-                      placeholder="Describe the new outfit..."
+                      placeholder={garments.length > 0 ? t('outfit.editorPlaceholderWithGarments') : t('outfit.editorPlaceholder')}
                       className="w-full p-4 rounded-2xl border border-gray-200 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-all resize-none h-40 text-sm"
                     />
                   </div>
                 )}
 
-                <div className="space-y-4">
-                  <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
-                    <ImageIcon size={14} /> Original Photo
+                <div className="space-y-2">
+                  <span id="variant-count" className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+                    <Copy size={14} aria-hidden /> {t('editor.variants')}
                   </span>
-                  <div className="rounded-2xl overflow-hidden bg-gray-100 border border-black/5 aspect-square relative">
-                    <img 
-                      src={originalImage} 
-                      alt="Original" 
-                      className="w-full h-full object-cover"
-                    />
+                  <div role="group" aria-labelledby="variant-count" className="flex bg-gray-100 p-1 rounded-xl">
+                    {VARIANT_CHOICES.map((count) => (
+                      <button
+                        key={count}
+                        onClick={() => setVariantCount(count)}
+                        aria-pressed={variantCount === count}
+                        disabled={isProcessing}
+                        className={cn(
+                          "flex-1 py-1.5 rounded-lg text-sm font-medium transition-all",
+                          variantCount === count ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
+                        )}
+                      >
+                        {count}
+                      </button>
+                    ))}
                   </div>
                 </div>
+
+                <ModelPicker disabled={isProcessing} />
+
+                <RecipeMenu recipe={currentRecipe} onImport={applyRecipe} />
+
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+                      <ImageIcon size={14} aria-hidden /> {t('editor.originalPhoto')}
+                    </span>
+                    <button
+                      onClick={() => setIsMasking(!isMasking)}
+                      aria-pressed={isMasking}
+                      className={cn(
+                        "px-2.5 py-1 rounded-lg text-xs font-semibold flex items-center gap-1.5 transition-colors",
+                        isMasking || mask ? "bg-emerald-50 text-emerald-600" : "text-gray-500 hover:text-black"
+                      )}
+                    >
+                      <SquareDashedMousePointer size={14} aria-hidden /> {t(isMasking ? 'editor.maskDone' : mask ? 'editor.maskEdit' : 'editor.maskSelect')}
+                    </button>
+                  </div>
+                  {isMasking ? (
+                    <MaskEditor image={originalImage} mask={mask} onChange={setMask} />
+                  ) : (
+                    <div className="rounded-2xl overflow-hidden bg-gray-100 border border-black/5 aspect-square relative">
+                      <img 
+                        src={originalImage} 
+                        alt={t('editor.original')}
+                        className="w-full h-full object-cover"
+                      />
+                      {mask && (
+                        <img
+                          src={mask}
+                          alt=""
+                          className="absolute inset-0 w-full h-full object-cover mix-blend-screen opacity-40 pointer-events-none"
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
               </div>
 
               {/* Right Column: Result */}
-              <div className="lg:col-span-8 space-y-4">
-                <div className="flex items-center justify-between">
-                  <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
-                    {mode === 'style' ? (
-                      <>
-                        {React.createElement(STYLES.find(s => s.id === selectedStyle)?.icon || Sparkles, { size: 14, className: "text-emerald-500" })} 
-                        {STYLES.find(s => s.id === selectedStyle)?.label} Effect
-                      </>
-                    ) : (
-                      <>
-                        <Shirt size={14} className="text-emerald-500" /> Outfit Swap
-                      </>
-                    )}
-                  </span>
+              {isComparing ? (
+                <div className="lg:col-span-8">
+                  <StyleMatrix
+                    originalImage={originalImage}
+                    parameters={styleParameters}
+                    mask={mask}
+                    onSelect={(style, image, generation) => {
+                      setSelectedStyle(style);
+                      clearResult();
+                      versionHistory.start(image, t('version.effect', { style: labelOf(style) }), generation);
+                      setResultParameters(styleParameters);
+                      setIsComparing(false);
+                    }}
+                    onClose={() => setIsComparing(false)}
+                  />
                 </div>
+              ) : (
+                <div className="lg:col-span-8 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+                      {mode === 'style' ? (
+                        <>
+                          <StyleIcon name={currentStyle?.icon} size={14} className="text-emerald-500" />
+                          {t('editor.effect', { style: currentStyleLabel })}
+                        </>
+                      ) : (
+                        <>
+                          <Shirt size={14} className="text-emerald-500" /> {t('editor.outfitSwap')}
+                        </>
+                      )}
+                    </span>
+                    {transformedImage && resultParameters && summarizeParameters(resultParameters, t).length > 0 && (
+                      <span className="text-xs text-gray-400 truncate">
+                        {summarizeParameters(resultParameters, t).join(' • ')}
+                      </span>
+                    )}
+                  </div>
                 
-                <div className="rounded-3xl overflow-hidden bg-gray-100 border border-black/5 aspect-video md:aspect-square lg:aspect-video relative flex items-center justify-center">
                   {transformedImage ? (
-                    <motion.img 
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: 1 }}
-                      src={transformedImage} 
-                      alt="Transformed" 
-                      className="w-full h-full object-contain bg-white"
+                    <ComparisonViewer
+                      before={originalImage}
+                      after={transformedImage}
+                      beforeLabel={t('editor.original')}
+                      afterLabel={t('editor.result')}
+                      className="aspect-video md:aspect-square lg:aspect-video"
                     />
                   ) : (
-                    <div className="p-8 text-center">
-                      {isProcessing ? (
-                        <div className="flex flex-col items-center gap-4">
-                          <RefreshCw className="animate-spin text-emerald-500" size={32} />
-                          <p className="text-gray-500 font-medium">
-                            {mode === 'style' ? `Creating your ${selectedStyle} art...` : "Swapping your outfit..."}
-                          </p>
-                        </div>
-                      ) : error ? (
-                        <div className="flex flex-col items-center gap-4 text-red-500">
-                          <AlertCircle size={32} />
-                          <p className="font-medium">{error}</p>
-                          <button 
-                            onClick={handleTransform}
-                            className="text-sm font-semibold underline"
+                    <div aria-busy={isProcessing} className="rounded-3xl overflow-hidden bg-gray-100 border border-black/5 aspect-video md:aspect-square lg:aspect-video relative flex items-center justify-center">
+                      <div className="p-8 text-center">
+                        {isProcessing ? (
+                          <div className="flex flex-col items-center gap-4">
+                            <RefreshCw className="animate-spin text-emerald-500" size={32} />
+                            <p className="text-gray-500 font-medium">
+                              {processingMessage}
+                            </p>
+                            {retryNotice && <p className="text-xs text-gray-400">{retryNotice}</p>}
+                            <button
+                              onClick={cancelTransform}
+                              className="text-sm font-semibold text-gray-500 hover:text-black transition-colors flex items-center gap-1"
+                            >
+                              <X size={14} aria-hidden /> {t('common.cancel')}
+                            </button>
+                          </div>
+                        ) : error ? (
+                          <div className="flex flex-col items-center gap-4 text-red-500">
+                            <AlertCircle size={32} />
+                            <p className="font-medium">{error}</p>
+                            <button 
+                              onClick={handleTransform}
+                              disabled={!!usage.quota.reached}
+                              className="text-sm font-semibold underline disabled:opacity-50"
+                            >
+                              {t('editor.tryAgain')}
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex flex-col items-center gap-6">
+                            <div className="w-20 h-20 bg-emerald-50 rounded-full flex items-center justify-center text-emerald-500">
+                              {mode === 'style' 
+                                ? <StyleIcon name={currentStyle?.icon} size={40} />
+                                : <Shirt size={40} />
+                              }
+                            </div>
+                            <p className="text-gray-500">
+                              {mode === 'style' 
+                                ? t('editor.ready', { style: currentStyleLabel })
+                                : t('editor.readyOutfit')
+                              }
+                            </p>
+                            <button
+                              onClick={handleTransform}
+                              disabled={!!usage.quota.reached}
+                              className="bg-emerald-500 hover:bg-emerald-600 text-white px-8 py-3 rounded-xl font-semibold shadow-lg shadow-emerald-500/20 transition-all active:scale-95 disabled:opacity-50 disabled:shadow-none"
+                            >
+                              {mode === 'style' ? t('editor.apply', { style: currentStyleLabel }) : t('editor.swap')}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {transformedImage && (
+                    <div className="space-y-4">
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => setIsExporting(true)}
+                          className="flex-1 bg-black text-white px-6 py-4 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-800 transition-colors active:scale-95"
+                        >
+                          <Download size={18} aria-hidden /> {t('editor.download')}
+                        </button>
+                        {isProcessing ? (
+                          <button
+                            onClick={cancelTransform}
+                            className="flex-1 bg-white border border-black/10 text-black px-6 py-4 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors active:scale-95"
                           >
-                            Try again
+                            <RefreshCw size={18} className="animate-spin" aria-hidden /> {t('common.cancel')}
                           </button>
-                        </div>
-                      ) : (
-                        <div className="flex flex-col items-center gap-6">
-                          <div className="w-20 h-20 bg-emerald-50 rounded-full flex items-center justify-center text-emerald-500">
-                            {mode === 'style' 
-                              ? React.createElement(STYLES.find(s => s.id === selectedStyle)?.icon || Sparkles, { size: 40 })
-                              : <Shirt size={40} />
-                            }
-                          </div>
-                          <p className="text-gray-500">
-                            {mode === 'style' 
-                              ? `Ready to transform your photo into ${selectedStyle}?`
-                              : "Ready to swap your outfit?"
-                            }
-                          </p>
+                        ) : (
                           <button
                             onClick={handleTransform}
-                            className="bg-emerald-500 hover:bg-emerald-600 text-white px-8 py-3 rounded-xl font-semibold shadow-lg shadow-emerald-500/20 transition-all active:scale-95"
+                            disabled={!!usage.quota.reached}
+                            className="flex-1 bg-white border border-black/10 text-black px-6 py-4 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors active:scale-95 disabled:opacity-50"
                           >
-                            {mode === 'style' ? `Apply ${STYLES.find(s => s.id === selectedStyle)?.label} Effect` : "Swap Outfit"}
+                            <RefreshCw size={18} aria-hidden /> {t('editor.regenerate')}
                           </button>
-                        </div>
+                        )}
+                      </div>
+                      {retryNotice && <p className="text-xs text-gray-400">{retryNotice}</p>}
+                      {error && (
+                        <p className="flex items-center gap-2 text-red-500 text-sm font-medium">
+                          <AlertCircle size={16} /> {error}
+                        </p>
                       )}
+                      <CandidatePicker
+                        candidates={candidates}
+                        selectedId={selectedCandidateId}
+                        onSelect={selectCandidate}
+                        onChange={setCandidates}
+                      />
+                      <RefinePanel history={versionHistory} mask={mask} disabled={isProcessing} />
                     </div>
                   )}
                 </div>
-
-                {transformedImage && (
-                  <div className="flex gap-3">
-                    <button
-                      onClick={handleDownload}
-                      className="flex-1 bg-black text-white px-6 py-4 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-800 transition-colors active:scale-95"
-                    >
-                      <Download size={18} /> Download Masterpiece
-                    </button>
-                    <button
-                      onClick={handleTransform}
-                      disabled={isProcessing}
-                      className="flex-1 bg-white border border-black/10 text-black px-6 py-4 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors active:scale-95 disabled:opacity-50"
-                    >
-                      <RefreshCw size={18} className={isProcessing ? "animate-spin" : ""} /> Regenerate
-                    </button>
-                  </div>
-                )}
-              </div>
+              )}
             </motion.div>
           )}
         </AnimatePresence>
       </main>
 
+      <div role="status" aria-live="polite" className="sr-only">{statusMessage}</div>
+      <div role="alert" className="sr-only">{error}</div>
+
+      {isExporting && exportSource && (
+        <ExportDialog
+          source={exportSource}
+          originalName={originalName}
+          styleName={exportStyle ?? 'outfit'}
+          onClose={() => setIsExporting(false)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="max-w-5xl mx-auto px-6 py-12 border-t border-black/5 mt-12 text-center">
         <p className="text-sm text-gray-400">
-          Powered by Gemini AI • Created for artistic expression
+          {t('app.footer')}
         </p>
       </footer>
     </div>
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseCliArgs, UsageError } from './args';
+
+test('reads a style run with defaults for everything left out', () => {
+  assert.deepEqual(parseCliArgs(['style', '--style', 'watercolor', '--in', 'photos', '--out', 'out']), {
+    command: 'style',
+    input: 'photos',
+    output: 'out',
+    concurrency: 3,
+    backend: null,
+    server: null,
+    model: null,
+    json: false,
+    force: false,
+    seed: undefined,
+    style: 'watercolor',
+    outfitDescription: '',
+    garments: [],
+  });
+});
+
+test('reads an outfit run with garments and flags', () => {
+  const options = parseCliArgs([
+    'outfit', '--garment', 'a.jpg', '--garment', 'b.png', '--in', 'photos', '--out', 'out',
+    '--concurrency', '5', '--backend', 'fake', '--seed', '42', '--force', '--json',
+  ]);
+  assert.equal(options?.command, 'outfit');
+  assert.deepEqual(options?.garments, ['a.jpg', 'b.png']);
+  assert.equal(options?.concurrency, 5);
+  assert.equal(options?.backend, 'fake');
+  assert.equal(options?.seed, 42);
+  assert.equal(options?.force, true);
+  assert.equal(options?.json, true);
+});
+
+test('returns null for --help', () => {
+  assert.equal(parseCliArgs(['--help']), null);
+  assert.equal(parseCliArgs(['style', '-h']), null);
+});
+
+test('rejects bad usage with a UsageError', () => {
+  const base = ['--in', 'photos', '--out', 'out'];
+  const cases: [string[], RegExp][] = [
+    [[], /Missing command/],
+    [['paint', ...base], /Unknown command "paint"/],
+    [['style', '--style', 'oil', ...base, 'extra'], /Unexpected argument "extra"/],
+    [['style', '--style', 'oil', '--in', 'photos'], /--in and --out are required/],
+    [['style', ...base], /--style <id>/],
+    [['outfit', ...base], /--describe <text> or at least one --garment/],
+    [['style', '--style', 'oil', ...base, '--backend', 'cloud'], /Unknown backend "cloud"/],
+    [['style', '--style', 'oil', ...base, '--backend', 'fake', '--server', 'http://localhost:3000'], /cannot be combined/],
+    [['style', '--style', 'oil', ...base, '--concurrency', '0'], /--concurrency must be an integer between 1 and 8/],
+    [['style', '--style', 'oil', ...base, '--seed', '1.5'], /--seed must be an integer/],
+    [['style', '--style', 'oil', ...base, '--colour', 'red'], /Unknown option '--colour'/],
+  ];
+  for (const [argv, message] of cases) {
+    assert.throws(() => parseCliArgs(argv), (error) => error instanceof UsageError && message.test(error.message), argv.join(' '));
+  }
+});
@@ -0,0 +1,130 @@
+import { parseArgs } from 'node:util';
+
+export type CliCommand = 'style' | 'outfit';
+
+export type CliBackend = 'gemini' | 'local' | 'fake';
+
+export interface CliOptions {
+  command: CliCommand;
+  /** A directory of images or a single image file. */
+  input: string;
+  output: string;
+  concurrency: number;
+  /** Backend for the in-process server; null uses `IMAGE_BACKEND`. Ignored with `server`. */
+  backend: CliBackend | null;
+  /** URL of a running studio server to use instead of starting one in-process. */
+  server: string | null;
+  /** Model id to generate with; null uses the server's default. */
+  model: string | null;
+  json: boolean;
+  /** Process inputs again even when their output already exists. */
+  force: boolean;
+  seed?: number;
+  style?: string;
+  outfitDescription: string;
+  /** Paths of garment product photos. */
+  garments: string[];
+}
+
+export const MAX_CLI_CONCURRENCY = 8;
+
+export const USAGE = `Usage:
+  andy-storm style --style <id> --in <dir|file> --out <dir> [options]
+  andy-storm outfit (--describe <text> | --garment <file>...) --in <dir|file> --out <dir> [options]
+
+Options:
+  --concurrency <n>   Requests in flight at once (1-${MAX_CLI_CONCURRENCY}, default 3)
+  --backend <name>    gemini, local or fake (default: IMAGE_BACKEND, else gemini)
+  --server <url>      Use a running studio server instead of starting one
+  --model <id>        Model to use, e.g. local-halftone (default: the server's)
+  --seed <n>          Fixed seed, for repeatable results
+  --force             Process inputs whose output already exists
+  --json              Print a JSON report instead of progress lines
+  -h, --help          Show this help`;
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+function parseInteger(value: string | undefined, name: string, min: number, max: number): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new UsageError(`--${name} must be an integer between ${min} and ${max}.`);
+  }
+  return number;
+}
+
+/** Returns null when help was asked for. */
+export function parseCliArgs(argv: string[]): CliOptions | null {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        style: { type: 'string' },
+        describe: { type: 'string' },
+        garment: { type: 'string', multiple: true },
+        in: { type: 'string' },
+        out: { type: 'string' },
+        concurrency: { type: 'string' },
+        backend: { type: 'string' },
+        server: { type: 'string' },
+        model: { type: 'string' },
+        seed: { type: 'string' },
+        force: { type: 'boolean' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+
+  const [command, ...extra] = positionals;
+  if (command !== 'style' && command !== 'outfit') {
+    throw new UsageError(command ? `Unknown command "${command}".` : 'Missing command.');
+  }
+  if (extra.length > 0) {
+    throw new UsageError(`Unexpected argument "${extra[0]}".`);
+  }
+  if (!values.in || !values.out) {
+    throw new UsageError('Both --in and --out are required.');
+  }
+  if (values.backend !== undefined && !['gemini', 'local', 'fake'].includes(values.backend)) {
+    throw new UsageError(`Unknown backend "${values.backend}". Expected "gemini", "local" or "fake".`);
+  }
+  if (values.backend && values.server) {
+    throw new UsageError('--backend and --server cannot be combined; the server picks its own backend.');
+  }
+  if (command === 'style' && !values.style) {
+    throw new UsageError('style needs --style <id>.');
+  }
+  const outfitDescription = values.describe?.trim() ?? '';
+  const garments = values.garment ?? [];
+  if (command === 'outfit' && !outfitDescription && garments.length === 0) {
+    throw new UsageError('outfit needs --describe <text> or at least one --garment <file>.');
+  }
+
+  return {
+    command,
+    input: values.in,
+    output: values.out,
+    concurrency: parseInteger(values.concurrency, 'concurrency', 1, MAX_CLI_CONCURRENCY) ?? 3,
+    backend: (values.backend as CliBackend | undefined) ?? null,
+    server: values.server ?? null,
+    model: values.model ?? null,
+    json: values.json ?? false,
+    force: values.force ?? false,
+    seed: parseInteger(values.seed, 'seed', 0, 2 ** 31 - 1),
+    style: values.style,
+    outfitDescription,
+    garments,
+  };
+}
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { test, type TestContext } from 'node:test';
+import { encodePng } from '../server/images';
+import { runCli } from './run';
+
+const PHOTO = Buffer.from(encodePng({ width: 2, height: 2, data: new Uint8Array(16).fill(200) }).data, 'base64');
+
+/** An input directory holding `names` as tiny PNGs, and an output directory next to it. */
+async function workspace(t: TestContext, names: string[]) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-test-'));
+  t.after(() => fs.rm(root, { recursive: true, force: true }));
+  const input = path.join(root, 'in');
+  await fs.mkdir(input);
+  await Promise.all(names.map((name) => fs.writeFile(path.join(input, name), PHOTO)));
+  return { input, output: path.join(root, 'out') };
+}
+
+/** Runs the CLI with its console output captured. */
+async function run(t: TestContext, argv: string[]) {
+  const stdout = t.mock.method(console, 'log', () => {});
+  const stderr = t.mock.method(console, 'error', () => {});
+  const code = await runCli(argv);
+  const lines = (mock: typeof stdout) => mock.mock.calls.map((call) => String(call.arguments[0]));
+  stdout.mock.restore();
+  stderr.mock.restore();
+  return { code, stdout: lines(stdout), stderr: lines(stderr) };
+}
+
+test('styles every image in the input directory with the fake backend', async (t) => {
+  const { input, output } = await workspace(t, ['a.png', 'b.png', 'notes.txt']);
+  const { code, stdout } = await run(t, ['style', '--style', 'watercolor', '--in', input, '--out', output, '--backend', 'fake']);
+  assert.equal(code, 0);
+  assert.deepEqual((await fs.readdir(output)).sort(), ['a-watercolor.png', 'b-watercolor.png']);
+  assert.deepEqual(await fs.readFile(path.join(output, 'a-watercolor.png')), PHOTO);
+  assert.equal(stdout.at(-1), '2 done, 0 skipped, 0 failed (fake backend)');
+});
+
+test('skips inputs whose output exists unless --force is given', async (t) => {
+  const { input, output } = await workspace(t, ['a.png', 'b.png']);
+  await fs.mkdir(output);
+  await fs.writeFile(path.join(output, 'a-watercolor.png'), 'earlier run');
+  const argv = ['style', '--style', 'watercolor', '--in', input, '--out', output, '--backend', 'fake'];
+
+  const first = await run(t, argv);
+  assert.equal(first.code, 0);
+  assert.equal(first.stdout.at(-1), '1 done, 1 skipped, 0 failed (fake backend)');
+  assert.equal(await fs.readFile(path.join(output, 'a-watercolor.png'), 'utf8'), 'earlier run');
+
+  const forced = await run(t, [...argv, '--force']);
+  assert.equal(forced.stdout.at(-1), '2 done, 0 skipped, 0 failed (fake backend)');
+  assert.deepEqual(await fs.readFile(path.join(output, 'a-watercolor.png')), PHOTO);
+});
+
+test('prints a JSON report with --json and exits 1 when an input fails', async (t) => {
+  const { input, output } = await workspace(t, ['a.png']);
+  const { code, stdout } = await run(t, ['style', '--style', 'watercolor', '--in', input, '--out', output, '--backend', 'fake', '--model', 'nope', '--json']);
+  assert.equal(code, 1);
+  assert.equal(stdout.length, 1);
+  const report = JSON.parse(stdout[0]);
+  assert.equal(report.command, 'style');
+  assert.deepEqual(report.counts, { done: 0, skipped: 0, failed: 1 });
+  assert.equal(report.results[0].status, 'failed');
+  assert.equal(report.results[0].code, 'invalid_input');
+  assert.match(report.results[0].error, /Unknown model "nope"/);
+});
+
+test('refuses inputs that would write the same output before doing any work', async (t) => {
+  const { input, output } = await workspace(t, ['a.jpg', 'a.png']);
+  const { code, stderr } = await run(t, ['style', '--style', 'watercolor', '--in', input, '--out', output, '--backend', 'fake']);
+  assert.equal(code, 2);
+  assert.match(stderr[0], /a\.jpg and a\.png would both be saved as a-watercolor/);
+  await assert.rejects(fs.access(output));
+});
+
+test('exits 2 with the usage text for bad arguments and 0 for --help', async (t) => {
+  const bad = await run(t, ['style', '--in', 'photos', '--out', 'out']);
+  assert.equal(bad.code, 2);
+  assert.match(bad.stderr[0], /style needs --style <id>\.\n\nUsage:/);
+
+  const help = await run(t, ['--help']);
+  assert.equal(help.code, 0);
+  assert.match(help.stdout[0], /^Usage:/);
+});
@@ -0,0 +1,277 @@
+import fs from 'fs/promises';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { dataUrlToBytes, extensionForMimeType, stripExtension } from '../lib/files';
+import { createApp } from '../server/app';
+import { createBackendsFromEnv } from '../server/backends';
+import { openDatabase } from '../server/db';
+import { createHistoryStore } from '../server/history';
+import { createStyleStore } from '../server/styles';
+import { createUsageStore, quotaLimitsFromEnv } from '../server/usage';
+import { parseDataUrl, toDataUrl } from '../shared/dataUrl';
+import type { GenerationErrorCode } from '../shared/errors';
+import {
+  GenerationError,
+  setApiBaseUrl,
+  swapOutfit,
+  transformToArtisticStyle,
+  type TransformResult,
+} from '../services/geminiService';
+import { parseCliArgs, USAGE, UsageError, type CliBackend, type CliOptions } from './args';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+export type CliResultStatus = 'done' | 'skipped' | 'failed';
+
+export interface CliResult {
+  input: string;
+  /** The written file, or the existing one that caused a skip. Null when nothing was written. */
+  output: string | null;
+  status: CliResultStatus;
+  error?: string;
+  code?: GenerationErrorCode;
+  generationId?: number;
+  durationMs?: number;
+}
+
+export interface CliReport {
+  command: CliOptions['command'];
+  backend: string;
+  results: CliResult[];
+  counts: Record<CliResultStatus, number>;
+}
+
+interface ApiServer {
+  url: string;
+  backend: string;
+  close: () => void;
+}
+
+async function listInputs(input: string): Promise<string[]> {
+  const stats = await fs.stat(input).catch(() => {
+    throw new UsageError(`${input} does not exist.`);
+  });
+  if (stats.isFile()) {
+    if (!IMAGE_MIME_TYPES[path.extname(input).toLowerCase()]) {
+      throw new UsageError(`${input} is not a JPEG, PNG or WebP image.`);
+    }
+    return [input];
+  }
+  const entries = await fs.readdir(input, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile() && IMAGE_MIME_TYPES[path.extname(entry.name).toLowerCase()])
+    .map((entry) => path.join(input, entry.name))
+    .sort();
+}
+
+async function readImageAsDataUrl(file: string): Promise<string> {
+  const mimeType = IMAGE_MIME_TYPES[path.extname(file).toLowerCase()];
+  if (!mimeType) {
+    throw new UsageError(`${file} is not a JPEG, PNG or WebP image.`);
+  }
+  return toDataUrl({ mimeType, data: (await fs.readFile(file)).toString('base64') });
+}
+
+/**
+ * Runs the same API the browser uses, on a free local port. The offline
+ * backends get a throwaway database so CI runs leave nothing behind; real runs
+ * are saved to the studio database and show up in the Gallery.
+ */
+async function startApiServer(backendName: CliBackend | null): Promise<ApiServer> {
+  const backends = createBackendsFromEnv(backendName ? { ...process.env, IMAGE_BACKEND: backendName } : process.env);
+  const offline = backends.get(backends.defaultModel)!.provider !== 'gemini';
+  const db = openDatabase(offline
+    ? ':memory:'
+    : process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'studio.db'));
+  const app = createApp({
+    backends,
+    history: createHistoryStore(db),
+    styles: createStyleStore(db),
+    usage: createUsageStore(db, quotaLimitsFromEnv()),
+  });
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    backend: backends.defaultModel,
+    close: () => {
+      server.close();
+      db.close();
+    },
+  };
+}
+
+async function connectApiServer(url: string): Promise<ApiServer> {
+  const response = await fetch(`${url.replace(/\/+$/, '')}/api/health`).catch(() => null);
+  const health = response?.ok ? await response.json().catch(() => null) : null;
+  if (!health?.backend) {
+    throw new Error(`No studio server is answering at ${url}.`);
+  }
+  return { url, backend: health.backend, close: () => {} };
+}
+
+/** Outputs are named `<input>-<style|outfit>.<ext>`, like the Batch view's ZIP entries. */
+function outputStem(input: string, options: CliOptions) {
+  return `${stripExtension(path.basename(input))}-${options.command === 'style' ? options.style : 'outfit'}`;
+}
+
+/** Stops before any work when two inputs, such as `a.jpg` and `a.png`, would write the same output. */
+function checkOutputCollisions(inputs: string[], options: CliOptions) {
+  const byStem = new Map<string, string>();
+  for (const input of inputs) {
+    const stem = outputStem(input, options);
+    const other = byStem.get(stem);
+    if (other) {
+      throw new UsageError(`${path.basename(other)} and ${path.basename(input)} would both be saved as ${stem}. Rename one of them or run them separately.`);
+    }
+    byStem.set(stem, input);
+  }
+}
+
+/** Maps output stems that already exist in `dir` to their file names. */
+async function existingOutputs(dir: string): Promise<Map<string, string>> {
+  const names = await fs.readdir(dir).catch(() => [] as string[]);
+  return new Map(names.map((name) => [stripExtension(name), name]));
+}
+
+function transform(dataUrl: string, options: CliOptions, garments: string[], signal: AbortSignal): Promise<TransformResult> {
+  const { mimeType, data } = parseDataUrl(dataUrl);
+  const transformOptions = { seed: options.seed, model: options.model ?? undefined, signal };
+  return options.command === 'style'
+    ? transformToArtisticStyle(data, mimeType, options.style!, transformOptions)
+    : swapOutfit(data, mimeType, options.outfitDescription, { ...transformOptions, garments });
+}
+
+/** The CLI's own English wording; the browser's comes from the translation catalogs. */
+function describeFailure(error: unknown): string {
+  if (!(error instanceof GenerationError)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  switch (error.code) {
+    case 'rate_limited':
+      return 'The image model is busy or the quota is used up. Wait a minute, or lower --concurrency, and run again.';
+    case 'safety_blocked':
+      return `Blocked by the model's safety filters${error.reason ? ` (${error.reason.toLowerCase().replace(/_/g, ' ')})` : ''}.`;
+    case 'no_image':
+      return error.reason ? `The model answered without an image: "${error.reason}".` : "The model didn't return an image.";
+    case 'network':
+      return "Couldn't reach the image model. Check the connection and run again.";
+    case 'quota_exceeded':
+      return `${error.message} It resets at midnight UTC.`;
+    case 'model_error':
+      return `${error.message} Try another --model or check the server's setup.`;
+    case 'invalid_input':
+    case 'server_error':
+      return error.message;
+  }
+}
+
+function formatResult(result: CliResult) {
+  const name = path.basename(result.input);
+  if (result.status === 'done') {
+    return `✓ ${name} → ${result.output} (${((result.durationMs ?? 0) / 1000).toFixed(1)}s)`;
+  }
+  if (result.status === 'skipped') {
+    return `- ${name} already done (${result.output})`;
+  }
+  return `✗ ${name}: ${result.error}`;
+}
+
+async function processInputs(options: CliOptions, signal: AbortSignal): Promise<CliReport> {
+  const inputs = await listInputs(options.input);
+  checkOutputCollisions(inputs, options);
+  const garments = await Promise.all(options.garments.map(readImageAsDataUrl));
+  await fs.mkdir(options.output, { recursive: true });
+  const existing = await existingOutputs(options.output);
+
+  const api = options.server ? await connectApiServer(options.server) : await startApiServer(options.backend);
+  setApiBaseUrl(api.url);
+  const log = (result: CliResult) => {
+    if (!options.json) console.log(formatResult(result));
+  };
+
+  try {
+    const settled = await mapWithConcurrency(inputs, options.concurrency, async (input): Promise<CliResult> => {
+      const stem = outputStem(input, options);
+      const done = existing.get(stem);
+      if (done && !options.force) {
+        const skipped: CliResult = { input, output: path.join(options.output, done), status: 'skipped' };
+        log(skipped);
+        return skipped;
+      }
+
+      const startedAt = Date.now();
+      let result: CliResult;
+      try {
+        const { image, generation } = await transform(await readImageAsDataUrl(input), options, garments, signal);
+        const output = path.join(options.output, `${stem}.${extensionForMimeType(parseDataUrl(image).mimeType)}`);
+        await fs.writeFile(output, dataUrlToBytes(image));
+        result = { input, output, status: 'done', generationId: generation.id, durationMs: Date.now() - startedAt };
+      } catch (error) {
+        result = {
+          input,
+          output: null,
+          status: 'failed',
+          error: signal.aborted ? 'Cancelled.' : describeFailure(error),
+          code: error instanceof GenerationError ? error.code : undefined,
+        };
+      }
+      log(result);
+      return result;
+    });
+
+    // `mapWithConcurrency` settles every item, and the worker above never throws.
+    const results = settled.map((outcome) => (outcome as PromiseFulfilledResult<CliResult>).value);
+    const counts = { done: 0, skipped: 0, failed: 0 };
+    results.forEach((result) => counts[result.status]++);
+    return { command: options.command, backend: options.model ?? api.backend, results, counts };
+  } finally {
+    api.close();
+  }
+}
+
+/** Runs the CLI and resolves to its exit code: 0 on success, 1 if anything failed, 2 for bad usage. */
+export async function runCli(argv: string[]): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  try {
+    const report = await processInputs(options, controller.signal);
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      const { done, skipped, failed } = report.counts;
+      console.log(`${done} done, ${skipped} skipped, ${failed} failed (${report.backend} backend)`);
+    }
+    return report.counts.failed > 0 ? 1 : 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      console.log(JSON.stringify({ error: message }, null, 2));
+    } else {
+      console.error(message);
+    }
+    return error instanceof UsageError ? 2 : 1;
+  }
+}
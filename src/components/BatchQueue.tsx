@@ -0,0 +1,362 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Upload, Download, RefreshCw, AlertCircle, LayoutGrid, X, RotateCcw, Play, CheckCircle2, Layers, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { zipSync } from 'fflate';
+import { cn } from '../lib/utils';
+import { dataUrlToBytes, downloadBlob, extensionForMimeType, stripExtension } from '../lib/files';
+import { preprocessFile } from '../lib/preprocess';
+import { useI18n } from '../hooks/useI18n';
+import { useStyles } from '../hooks/useStyles';
+import { useModels } from '../hooks/useModels';
+import { parseDataUrl } from '../shared/dataUrl';
+import { DEFAULT_STYLE_ID } from '../shared/styles';
+import { transformToArtisticStyle, type StyleId } from '../services/geminiService';
+import { describeError, describeGenerationError } from '../i18n/describe';
+import StyleIcon from './StyleIcon';
+import ModelPicker from './ModelPicker';
+import type { MessageKey } from '../i18n';
+
+type BatchStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+interface BatchItem {
+  id: string;
+  name: string;
+  source: string;
+  status: BatchStatus;
+  style?: StyleId;
+  result?: string;
+  error?: string;
+}
+
+const MAX_CONCURRENCY = 6;
+
+const STATUS_LABELS: Record<BatchStatus, MessageKey> = {
+  queued: 'batch.status.queued',
+  processing: 'batch.status.processing',
+  done: 'batch.status.done',
+  error: 'batch.status.error',
+  cancelled: 'batch.status.cancelled',
+};
+
+function uniqueName(name: string, taken: Set<string>) {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = name.replace(/(\.[^.]+)$/, `-${n}$1`);
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+export default function BatchQueue() {
+  const { styles } = useStyles();
+  const { selectedModel } = useModels();
+  const { t, styleLabel } = useI18n();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [selectedStyle, setSelectedStyle] = useState<StyleId>(DEFAULT_STYLE_ID);
+  const [concurrency, setConcurrency] = useState(3);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  // Files that can't be decoded or shrunk under the limit show up as failed rows
+  // (with no source to retry) instead of being dropped silently.
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const added = await Promise.all(acceptedFiles.map(async (file): Promise<BatchItem> => {
+      const id = crypto.randomUUID();
+      try {
+        const { dataUrl } = await preprocessFile(file);
+        return { id, name: file.name, source: dataUrl, status: 'queued' };
+      } catch (err) {
+        return { id, name: file.name, source: '', status: 'error', error: describeError(err, t) };
+      }
+    }));
+    setItems((current) => [...current, ...added]);
+  }, [t]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { 'image/*': [] },
+    multiple: true,
+  });
+
+  const processItem = useCallback(async (item: BatchItem, style: StyleId) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    updateItem(item.id, { status: 'processing', style, error: undefined });
+
+    try {
+      const { mimeType, data } = parseDataUrl(item.source);
+      const { image } = await transformToArtisticStyle(data, mimeType, style, { signal: controller.signal, model: selectedModel ?? undefined });
+      updateItem(item.id, { status: 'done', result: image });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        updateItem(item.id, { status: 'cancelled' });
+      } else {
+        updateItem(item.id, { status: 'error', error: describeGenerationError(err, t) });
+      }
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  }, [updateItem, selectedModel, t]);
+
+  // Keep up to `concurrency` items in flight; a failed item never stops the rest.
+  useEffect(() => {
+    if (!isRunning) return;
+    const active = items.filter((item) => item.status === 'processing').length;
+    const next = items
+      .filter((item) => item.status === 'queued' && !controllers.current.has(item.id))
+      .slice(0, Math.max(0, concurrency - active));
+
+    if (active === 0 && next.length === 0) {
+      setIsRunning(false);
+      return;
+    }
+    next.forEach((item) => processItem(item, selectedStyle));
+  }, [items, isRunning, concurrency, selectedStyle, processItem]);
+
+  useEffect(() => () => controllers.current.forEach((controller) => controller.abort()), []);
+
+  const cancelItem = (item: BatchItem) => {
+    const controller = controllers.current.get(item.id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateItem(item.id, { status: 'cancelled' });
+    }
+  };
+
+  const retryItem = (item: BatchItem) => {
+    updateItem(item.id, { status: 'queued', error: undefined, result: undefined });
+    setIsRunning(true);
+  };
+
+  const removeItem = (item: BatchItem) => {
+    controllers.current.get(item.id)?.abort();
+    setItems((current) => current.filter((other) => other.id !== item.id));
+  };
+
+  const cancelAll = () => {
+    setIsRunning(false);
+    controllers.current.forEach((controller) => controller.abort());
+    setItems((current) => current.map((item) => (item.status === 'queued' ? { ...item, status: 'cancelled' } : item)));
+  };
+
+  const downloadZip = () => {
+    const taken = new Set<string>();
+    const files: Record<string, Uint8Array> = {};
+    for (const item of items) {
+      if (item.status !== 'done' || !item.result) continue;
+      const extension = extensionForMimeType(parseDataUrl(item.result).mimeType);
+      files[uniqueName(`${stripExtension(item.name)}-${item.style}.${extension}`, taken)] = dataUrlToBytes(item.result);
+    }
+    // Images are already compressed; storing them uncompressed keeps zipping instant.
+    downloadBlob(new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' }), `batch-${Date.now()}.zip`);
+  };
+
+  const counts = items.reduce(
+    (totals, item) => ({ ...totals, [item.status]: totals[item.status] + 1 }),
+    { queued: 0, processing: 0, done: 0, error: 0, cancelled: 0 } as Record<BatchStatus, number>,
+  );
+  const finished = counts.done + counts.error + counts.cancelled;
+
+  return (
+    <motion.div
+      key="batch"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0 }}
+      className="grid grid-cols-1 lg:grid-cols-12 gap-8"
+    >
+      {/* Left Column: Controls */}
+      <div className="lg:col-span-4 space-y-6">
+        <div className="space-y-4">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <LayoutGrid size={14} /> {t('common.chooseStyle')}
+          </span>
+          <div className="grid grid-cols-2 gap-3">
+            {styles.map((style) => (
+              <button
+                key={style.id}
+                onClick={() => setSelectedStyle(style.id)}
+                disabled={isRunning}
+                className={cn(
+                  "p-3 rounded-xl border transition-all text-left flex flex-col gap-1 group disabled:opacity-60",
+                  selectedStyle === style.id
+                    ? "border-emerald-500 bg-emerald-50 ring-1 ring-emerald-500"
+                    : "border-gray-200 hover:border-emerald-300 hover:bg-gray-50"
+                )}
+              >
+                <div className={cn(
+                  "w-8 h-8 rounded-lg flex items-center justify-center transition-colors",
+                  selectedStyle === style.id ? "bg-emerald-500 text-white" : "bg-gray-100 text-gray-400 group-hover:text-emerald-500"
+                )}>
+                  <StyleIcon name={style.icon} size={16} />
+                </div>
+                <p className="font-semibold text-xs">{styleLabel(style)}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <ModelPicker disabled={isRunning} />
+
+        <div className="space-y-2">
+          <label htmlFor="batch-concurrency" className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center justify-between">
+            <span>{t('common.concurrency')}</span>
+            <span className="text-emerald-600">{concurrency}</span>
+          </label>
+          <input
+            id="batch-concurrency"
+            type="range"
+            min={1}
+            max={MAX_CONCURRENCY}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            className="w-full accent-emerald-500"
+          />
+        </div>
+
+        <div
+          {...getRootProps()}
+          className={cn(
+            "relative group cursor-pointer rounded-2xl border-2 border-dashed transition-all duration-300 p-6 flex flex-col items-center justify-center gap-3",
+            isDragActive
+              ? "border-emerald-500 bg-emerald-50/50"
+              : "border-gray-200 hover:border-emerald-400 hover:bg-gray-50"
+          )}
+        >
+          <input {...getInputProps()} />
+          <Upload className="text-gray-400 group-hover:text-emerald-500 transition-colors" size={24} />
+          <p className="font-medium text-sm text-gray-900">{t('batch.add')}</p>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          {isRunning ? (
+            <button
+              onClick={cancelAll}
+              className="bg-white border border-black/10 text-black px-6 py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors active:scale-95"
+            >
+              <X size={18} /> {t('batch.cancel')}
+            </button>
+          ) : (
+            <button
+              onClick={() => setIsRunning(true)}
+              disabled={counts.queued === 0}
+              className="bg-emerald-500 hover:bg-emerald-600 text-white px-6 py-3 rounded-xl font-semibold shadow-lg shadow-emerald-500/20 flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-50 disabled:shadow-none"
+            >
+              <Play size={18} /> {t(counts.queued === 1 ? 'batch.runOne' : 'batch.run', { count: counts.queued })}
+            </button>
+          )}
+          <button
+            onClick={downloadZip}
+            disabled={counts.done === 0}
+            className="bg-black text-white px-6 py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-800 transition-colors active:scale-95 disabled:opacity-50"
+          >
+            <Download size={18} /> {t('batch.download', { count: counts.done })}
+          </button>
+        </div>
+      </div>
+
+      {/* Right Column: Queue */}
+      <div className="lg:col-span-8 space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <Layers size={14} className="text-emerald-500" /> {t('batch.queue')}
+          </span>
+          {items.length > 0 && (
+            <span className="text-xs text-gray-400">
+              {t('batch.finished', { finished, total: items.length })}{counts.error > 0 && ` • ${t('common.failed', { count: counts.error })}`}
+            </span>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className="h-full bg-emerald-500 transition-all"
+              style={{ width: `${(finished / items.length) * 100}%` }}
+            />
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <div className="rounded-3xl bg-gray-100 border border-black/5 aspect-video flex flex-col items-center justify-center gap-4 text-center p-8">
+            <div className="w-20 h-20 bg-emerald-50 rounded-full flex items-center justify-center text-emerald-500">
+              <Layers size={40} />
+            </div>
+            <p className="text-gray-500">{t('batch.empty')}</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {items.map((item) => (
+              <li
+                key={item.id}
+                className="flex items-center gap-4 p-3 rounded-2xl bg-white border border-black/5"
+              >
+                {item.source ? (
+                  <img src={item.source} alt={item.name} className="w-14 h-14 rounded-lg object-cover bg-gray-100" />
+                ) : (
+                  <div className="w-14 h-14 rounded-lg bg-gray-100" />
+                )}
+                {item.result ? (
+                  <img src={item.result} alt={t('batch.resultAlt', { name: item.name })} className="w-14 h-14 rounded-lg object-cover bg-gray-100" />
+                ) : (
+                  <div className="w-14 h-14 rounded-lg bg-gray-100 flex items-center justify-center text-gray-400">
+                    {item.status === 'processing' && <RefreshCw size={18} className="animate-spin text-emerald-500" />}
+                    {item.status === 'error' && <AlertCircle size={18} className="text-red-500" />}
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm truncate">{item.name}</p>
+                  <p className={cn(
+                    "text-xs flex items-center gap-1",
+                    item.status === 'done' && "text-emerald-600",
+                    item.status === 'error' && "text-red-500",
+                    (item.status === 'queued' || item.status === 'cancelled') && "text-gray-400",
+                    item.status === 'processing' && "text-gray-500",
+                  )}>
+                    {item.status === 'done' && <CheckCircle2 size={12} />}
+                    {item.status === 'error' ? item.error : t(STATUS_LABELS[item.status])}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  {(item.status === 'queued' || item.status === 'processing') && (
+                    <button
+                      onClick={() => cancelItem(item)}
+                      className="p-2 rounded-lg text-gray-400 hover:text-black hover:bg-gray-100 transition-colors"
+                      aria-label={t('batch.cancelItem', { name: item.name })}
+                    >
+                      <X size={16} />
+                    </button>
+                  )}
+                  {(item.status === 'error' || item.status === 'cancelled') && item.source && (
+                    <button
+                      onClick={() => retryItem(item)}
+                      className="p-2 rounded-lg text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 transition-colors"
+                      aria-label={t('batch.retryItem', { name: item.name })}
+                    >
+                      <RotateCcw size={16} />
+                    </button>
+                  )}
+                  {item.status !== 'processing' && (
+                    <button
+                      onClick={() => removeItem(item)}
+                      className="p-2 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                      aria-label={t('batch.removeItem', { name: item.name })}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Star, Trash2, Check } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+import { deleteGeneration, setFavorite } from '../services/historyService';
+import type { TransformResult } from '../services/geminiService';
+
+interface CandidatePickerProps {
+  candidates: TransformResult[];
+  selectedId: number | null;
+  onSelect: (candidate: TransformResult) => void;
+  onChange: (candidates: TransformResult[]) => void;
+}
+
+/**
+ * Thumbnails of the variants from one request. Favorites are flagged in the
+ * history, where the prompt, seed and settings are kept to reproduce them;
+ * discarded variants are deleted from it.
+ */
+export default function CandidatePicker({ candidates, selectedId, onSelect, onChange }: CandidatePickerProps) {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleFavorite = async (candidate: TransformResult) => {
+    setError(null);
+    try {
+      const generation = await setFavorite(candidate.generation.id, !candidate.generation.favorite);
+      onChange(candidates.map((other) => (other === candidate ? { ...other, generation } : other)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const discard = async (candidate: TransformResult) => {
+    setError(null);
+    try {
+      await deleteGeneration(candidate.generation.id);
+      onChange(candidates.filter((other) => other !== candidate));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const discardOthers = async () => {
+    const others = candidates.filter((candidate) => candidate.generation.id !== selectedId && !candidate.generation.favorite);
+    setError(null);
+    try {
+      await Promise.all(others.map((candidate) => deleteGeneration(candidate.generation.id)));
+      onChange(candidates.filter((candidate) => !others.includes(candidate)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold uppercase tracking-widest text-gray-400">
+          {t('candidates.heading', { count: candidates.length })}
+        </span>
+        {candidates.length > 1 && (
+          <button
+            onClick={discardOthers}
+            className="text-xs font-medium text-gray-500 hover:text-red-500 transition-colors"
+          >
+            {t('candidates.keep')}
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {candidates.map((candidate, index) => {
+          const isSelected = candidate.generation.id === selectedId;
+          return (
+            <div
+              key={candidate.generation.id}
+              className={cn(
+                "relative group aspect-square rounded-xl overflow-hidden bg-gray-100 border-2 transition-colors",
+                isSelected ? "border-emerald-500" : "border-transparent hover:border-emerald-300"
+              )}
+            >
+              <button onClick={() => onSelect(candidate)} className="w-full h-full" aria-label={t('candidates.use', { index: index + 1 })}>
+                <img src={candidate.image} alt={t('candidates.alt', { index: index + 1 })} className="w-full h-full object-cover" />
+              </button>
+              {isSelected && (
+                <span className="absolute bottom-1 left-1 w-5 h-5 rounded-full bg-emerald-500 text-white flex items-center justify-center pointer-events-none">
+                  <Check size={12} />
+                </span>
+              )}
+              <button
+                onClick={() => toggleFavorite(candidate)}
+                className={cn(
+                  "absolute top-1 left-1 w-6 h-6 rounded-full bg-white/90 flex items-center justify-center transition-colors",
+                  candidate.generation.favorite ? "text-amber-500" : "text-gray-400 hover:text-amber-500"
+                )}
+                aria-label={t(candidate.generation.favorite ? 'candidates.unfavorite' : 'candidates.favorite', { index: index + 1 })}
+              >
+                <Star size={12} fill={candidate.generation.favorite ? 'currentColor' : 'none'} />
+              </button>
+              {!isSelected && (
+                <button
+                  onClick={() => discard(candidate)}
+                  className="absolute top-1 right-1 w-6 h-6 rounded-full bg-white/90 text-gray-400 hover:text-red-500 flex opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 focus-visible:opacity-100 items-center justify-center"
+                  aria-label={t('candidates.discard', { index: index + 1 })}
+                >
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="text-xs font-medium text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,449 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Upload, Download, RefreshCw, AlertCircle, LayoutGrid, X, RotateCcw, Play, Film, Gauge, Clapperboard } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn, randomSeed } from '../lib/utils';
+import { downloadBlob, stripExtension } from '../lib/files';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { extractFrames, FPS_CHOICES, MAX_CLIP_FRAMES, type ClipFrames } from '../lib/clip';
+import { ANIMATION_FORMATS, encodeAnimation, type AnimationFormat } from '../lib/animation';
+import { useI18n } from '../hooks/useI18n';
+import { useStyles } from '../hooks/useStyles';
+import { useModels } from '../hooks/useModels';
+import { parseDataUrl } from '../shared/dataUrl';
+import { DEFAULT_STYLE_ID } from '../shared/styles';
+import { estimateGenerationCost, formatUsd } from '../shared/pricing';
+import { transformToArtisticStyle, isAbortError, type StyleId } from '../services/geminiService';
+import { describeError, describeGenerationError } from '../i18n/describe';
+import StyleIcon from './StyleIcon';
+import ModelPicker from './ModelPicker';
+
+type FrameStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+interface FrameState {
+  source: string;
+  status: FrameStatus;
+  result?: string;
+  error?: string;
+}
+
+interface ClipOutput {
+  url: string;
+  blob: Blob;
+  format: AnimationFormat;
+}
+
+const MAX_CONCURRENCY = 6;
+
+// The first frame is styled on its own; every later frame also sends it as a reference.
+function estimateClipCost(frameCount: number) {
+  if (frameCount === 0) return 0;
+  return estimateGenerationCost(1, 1) + estimateGenerationCost(frameCount - 1, 2);
+}
+
+export default function ClipStylizer() {
+  const { styles } = useStyles();
+  const { models, selectedModel } = useModels();
+  const { t, styleLabel } = useI18n();
+  const [file, setFile] = useState<File | null>(null);
+  const [fps, setFps] = useState<number>(FPS_CHOICES[1]);
+  const [clip, setClip] = useState<ClipFrames | null>(null);
+  const [frames, setFrames] = useState<FrameState[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [selectedStyle, setSelectedStyle] = useState<StyleId>(DEFAULT_STYLE_ID);
+  const [concurrency, setConcurrency] = useState(3);
+  const [format, setFormat] = useState<AnimationFormat>('image/webp');
+  const [isRunning, setIsRunning] = useState(false);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [output, setOutput] = useState<ClipOutput | null>(null);
+  // Kept as thrown and described when shown, so it follows the language picker.
+  const [error, setError] = useState<unknown>(null);
+  const controller = useRef<AbortController | null>(null);
+  // One seed per clip and style keeps the look from flickering between frames.
+  const seed = useRef(randomSeed());
+
+  const resetFrames = useCallback((sources: string[]) => {
+    seed.current = randomSeed();
+    setOutput(null);
+    setFrames(sources.map((source) => ({ source, status: 'queued' })));
+  }, []);
+
+  useEffect(() => {
+    if (!file) return;
+    const extraction = new AbortController();
+    setIsExtracting(true);
+    setError(null);
+    extractFrames(file, fps, extraction.signal)
+      .then((extracted) => {
+        setClip(extracted);
+        resetFrames(extracted.frames);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        setClip(null);
+        setFrames([]);
+        setError(err);
+      })
+      .finally(() => {
+        if (!extraction.signal.aborted) setIsExtracting(false);
+      });
+    return () => extraction.abort();
+  }, [file, fps, resetFrames]);
+
+  useEffect(() => () => { if (output) URL.revokeObjectURL(output.url); }, [output]);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (accepted) => accepted[0] && setFile(accepted[0]),
+    accept: { 'video/mp4': [], 'video/webm': [], 'image/gif': [] },
+    multiple: false,
+    disabled: isRunning,
+  });
+
+  const updateFrame = useCallback((index: number, changes: Partial<FrameState>) => {
+    setFrames((current) => current.map((frame, i) => (i === index ? { ...frame, ...changes } : frame)));
+  }, []);
+
+  // Frames from two models would flicker between looks, so a new model starts the clip over.
+  useEffect(() => {
+    seed.current = randomSeed();
+    setOutput(null);
+    setFrames((current) => current.map(({ source }) => ({ source, status: 'queued' })));
+  }, [selectedModel]);
+
+  const chooseStyle = (style: StyleId) => {
+    setSelectedStyle(style);
+    resetFrames(frames.map((frame) => frame.source));
+  };
+
+  const run = async () => {
+    const run = new AbortController();
+    controller.current = run;
+    setIsRunning(true);
+    setError(null);
+    setOutput(null);
+
+    const stylize = async (index: number, reference?: string) => {
+      updateFrame(index, { status: 'processing', error: undefined });
+      try {
+        const { mimeType, data } = parseDataUrl(frames[index].source);
+        const { image } = await transformToArtisticStyle(data, mimeType, selectedStyle, {
+          signal: run.signal,
+          seed: seed.current,
+          model: selectedModel ?? undefined,
+          reference,
+          clipFrame: true,
+        });
+        updateFrame(index, { status: 'done', result: image });
+        return image;
+      } catch (err) {
+        updateFrame(index, run.signal.aborted
+          ? { status: 'cancelled' }
+          : { status: 'error', error: describeGenerationError(err, t) });
+        throw err;
+      }
+    };
+
+    try {
+      // Every other frame is matched against the first, so it has to exist before they start.
+      const reference = frames[0].result ?? await stylize(0);
+      const pending = frames
+        .map((frame, index) => (frame.status === 'done' ? -1 : index))
+        .filter((index) => index > 0);
+      await mapWithConcurrency(pending, concurrency, (index) => stylize(index, reference));
+    } catch (err) {
+      if (!run.signal.aborted) {
+        setError(t('clips.firstFailed', { reason: describeGenerationError(err, t) }));
+      }
+    } finally {
+      controller.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const cancel = () => {
+    controller.current?.abort();
+    setFrames((current) => current.map((frame) => (frame.status === 'queued' ? { ...frame, status: 'cancelled' } : frame)));
+  };
+
+  const assemble = async () => {
+    if (!clip) return;
+    setIsEncoding(true);
+    setError(null);
+    try {
+      const blob = await encodeAnimation(frames.map((frame) => frame.result!), clip.fps, format);
+      setOutput({ url: URL.createObjectURL(blob), blob, format });
+    } catch (err) {
+      setError(err);
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
+  const downloadOutput = () => {
+    if (!output || !file) return;
+    const extension = ANIMATION_FORMATS.find((choice) => choice.value === output.format)!.extension;
+    downloadBlob(output.blob, `${stripExtension(file.name)}-${selectedStyle}.${extension}`);
+  };
+
+  const counts = frames.reduce(
+    (totals, frame) => ({ ...totals, [frame.status]: totals[frame.status] + 1 }),
+    { queued: 0, processing: 0, done: 0, error: 0, cancelled: 0 } as Record<FrameStatus, number>,
+  );
+  const remaining = frames.length - counts.done;
+  // Only Gemini bills per call; the local filters and the fake echo are free.
+  const provider = models.find((model) => model.id === selectedModel)?.provider;
+  const isFree = provider === 'local' || provider === 'fake';
+  const allDone = frames.length > 0 && remaining === 0;
+
+  return (
+    <motion.div
+      key="clips"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0 }}
+      className="grid grid-cols-1 lg:grid-cols-12 gap-8"
+    >
+      {/* Left Column: Controls */}
+      <div className="lg:col-span-4 space-y-6">
+        <div
+          {...getRootProps()}
+          className={cn(
+            "relative group cursor-pointer rounded-2xl border-2 border-dashed transition-all duration-300 p-6 flex flex-col items-center justify-center gap-3",
+            isDragActive
+              ? "border-emerald-500 bg-emerald-50/50"
+              : "border-gray-200 hover:border-emerald-400 hover:bg-gray-50",
+            isRunning && "opacity-50 cursor-not-allowed"
+          )}
+        >
+          <input {...getInputProps()} />
+          <Upload className="text-gray-400 group-hover:text-emerald-500 transition-colors" size={24} />
+          <p className="font-medium text-sm text-gray-900 text-center truncate max-w-full">
+            {file ? file.name : t('clips.drop')}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <Gauge size={14} /> {t('clips.fps')}
+          </span>
+          <div className="flex gap-2">
+            {FPS_CHOICES.map((choice) => (
+              <button
+                key={choice}
+                onClick={() => setFps(choice)}
+                disabled={isRunning}
+                className={cn(
+                  "px-2.5 py-1 rounded-lg border text-xs font-medium transition-colors disabled:opacity-60",
+                  fps === choice
+                    ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+                    : "border-gray-200 text-gray-500 hover:border-emerald-300"
+                )}
+              >
+                {t('clips.fpsChoice', { fps: choice })}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <LayoutGrid size={14} /> {t('common.chooseStyle')}
+          </span>
+          <div className="grid grid-cols-2 gap-3">
+            {styles.map((style) => (
+              <button
+                key={style.id}
+                onClick={() => chooseStyle(style.id)}
+                disabled={isRunning}
+                className={cn(
+                  "p-3 rounded-xl border transition-all text-left flex flex-col gap-1 group disabled:opacity-60",
+                  selectedStyle === style.id
+                    ? "border-emerald-500 bg-emerald-50 ring-1 ring-emerald-500"
+                    : "border-gray-200 hover:border-emerald-300 hover:bg-gray-50"
+                )}
+              >
+                <div className={cn(
+                  "w-8 h-8 rounded-lg flex items-center justify-center transition-colors",
+                  selectedStyle === style.id ? "bg-emerald-500 text-white" : "bg-gray-100 text-gray-400 group-hover:text-emerald-500"
+                )}>
+                  <StyleIcon name={style.icon} size={16} />
+                </div>
+                <p className="font-semibold text-xs">{styleLabel(style)}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <ModelPicker disabled={isRunning} />
+
+        <div className="space-y-2">
+          <label htmlFor="clip-concurrency" className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center justify-between">
+            <span>{t('common.concurrency')}</span>
+            <span className="text-emerald-600">{concurrency}</span>
+          </label>
+          <input
+            id="clip-concurrency"
+            type="range"
+            min={1}
+            max={MAX_CONCURRENCY}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            className="w-full accent-emerald-500"
+          />
+        </div>
+
+        {clip && (
+          <div className="p-4 rounded-2xl bg-white border border-black/5 space-y-1 text-sm">
+            <p className="text-gray-900 font-medium">
+              {t('clips.summary', { count: frames.length, width: clip.width, height: clip.height })}
+            </p>
+            <p className="text-gray-500 text-xs">
+              {t(remaining === 1 ? 'clips.costOne' : 'clips.cost', { cost: formatUsd(isFree ? 0 : estimateClipCost(remaining)), count: remaining })}
+            </p>
+            {clip.truncated && (
+              <p className="text-amber-600 text-xs">
+                {t('clips.truncated', { max: MAX_CLIP_FRAMES })}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-3">
+          {isRunning ? (
+            <button
+              onClick={cancel}
+              className="bg-white border border-black/10 text-black px-6 py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors active:scale-95"
+            >
+              <X size={18} /> {t('common.cancel')}
+            </button>
+          ) : (
+            <button
+              onClick={run}
+              disabled={remaining === 0 || isExtracting}
+              className="bg-emerald-500 hover:bg-emerald-600 text-white px-6 py-3 rounded-xl font-semibold shadow-lg shadow-emerald-500/20 flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-50 disabled:shadow-none"
+            >
+              {counts.done > 0 ? <RotateCcw size={18} /> : <Play size={18} />}
+              {t(counts.done > 0 ? 'clips.finish' : 'clips.stylize', { count: remaining })}
+            </button>
+          )}
+        </div>
+
+        {error != null && (
+          <p className="flex items-center gap-2 text-red-500 text-xs font-medium">
+            <AlertCircle size={14} className="shrink-0" /> {describeError(error, t)}
+          </p>
+        )}
+      </div>
+
+      {/* Right Column: Frames and output */}
+      <div className="lg:col-span-8 space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <Film size={14} className="text-emerald-500" /> {t('clips.frames')}
+          </span>
+          {frames.length > 0 && (
+            <span className="text-xs text-gray-400">
+              {t('clips.styled', { done: counts.done, total: frames.length })}{counts.error > 0 && ` • ${t('common.failed', { count: counts.error })}`}
+            </span>
+          )}
+        </div>
+
+        {frames.length > 0 && (
+          <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className="h-full bg-emerald-500 transition-all"
+              style={{ width: `${(counts.done / frames.length) * 100}%` }}
+            />
+          </div>
+        )}
+
+        {isExtracting ? (
+          <div className="rounded-3xl bg-gray-100 border border-black/5 aspect-video flex flex-col items-center justify-center gap-4">
+            <RefreshCw size={32} className="animate-spin text-emerald-500" />
+            <p className="text-gray-500">{t('clips.reading')}</p>
+          </div>
+        ) : frames.length === 0 ? (
+          <div className="rounded-3xl bg-gray-100 border border-black/5 aspect-video flex flex-col items-center justify-center gap-4 text-center p-8">
+            <div className="w-20 h-20 bg-emerald-50 rounded-full flex items-center justify-center text-emerald-500">
+              <Film size={40} />
+            </div>
+            <p className="text-gray-500">{t('clips.empty')}</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-6 sm:grid-cols-8 gap-2">
+            {frames.map((frame, index) => (
+              <div
+                key={index}
+                title={frame.error ?? t('clips.frame', { index: index + 1 })}
+                className={cn(
+                  "relative aspect-square rounded-lg overflow-hidden bg-gray-100 border",
+                  frame.status === 'error' ? "border-red-300" : "border-black/5"
+                )}
+              >
+                <img
+                  src={frame.result ?? frame.source}
+                  alt={t('clips.frame', { index: index + 1 })}
+                  className={cn("w-full h-full object-cover", !frame.result && "opacity-40")}
+                />
+                <div className="absolute inset-0 flex items-center justify-center">
+                  {frame.status === 'processing' && <RefreshCw size={14} className="animate-spin text-emerald-500" />}
+                  {frame.status === 'error' && <AlertCircle size={14} className="text-red-500" />}
+                </div>
+                <span className="absolute bottom-0.5 left-1 text-[10px] font-medium text-white drop-shadow">{index + 1}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {allDone && (
+          <div className="p-4 rounded-2xl bg-white border border-black/5 space-y-4">
+            <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+              <Clapperboard size={14} /> {t('clips.output')}
+            </span>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex bg-gray-100 p-1 rounded-xl">
+                {ANIMATION_FORMATS.map((choice) => (
+                  <button
+                    key={choice.value}
+                    onClick={() => setFormat(choice.value)}
+                    className={cn(
+                      "px-3 py-1.5 rounded-lg text-xs font-medium transition-all",
+                      format === choice.value ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
+                    )}
+                  >
+                    {choice.value === 'image/webp' ? t('clips.animatedWebp') : choice.label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={assemble}
+                disabled={isEncoding}
+                className="bg-emerald-500 hover:bg-emerald-600 text-white px-4 py-2 rounded-xl text-sm font-semibold flex items-center gap-2 transition-all active:scale-95 disabled:opacity-50"
+              >
+                {isEncoding ? <RefreshCw size={16} className="animate-spin" /> : <Film size={16} />}
+                {isEncoding ? t('clips.assembling') : t('clips.assemble')}
+              </button>
+              {output && (
+                <button
+                  onClick={downloadOutput}
+                  className="bg-black text-white px-4 py-2 rounded-xl text-sm font-semibold flex items-center gap-2 hover:bg-gray-800 transition-colors active:scale-95"
+                >
+                  <Download size={16} /> {t('clips.download')}
+                </button>
+              )}
+            </div>
+            {output && (
+              output.format === 'video/webm' ? (
+                <video src={output.url} autoPlay loop muted playsInline className="w-full rounded-2xl bg-gray-100" />
+              ) : (
+                <img src={output.url} alt={t('clips.outputAlt')} className="w-full rounded-2xl bg-gray-100" />
+              )
+            )}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
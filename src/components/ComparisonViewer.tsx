@@ -0,0 +1,365 @@
+import { useState, useEffect, useRef, type CSSProperties, type KeyboardEvent, type MouseEvent, type PointerEvent } from 'react';
+import { SplitSquareHorizontal, Blend, Columns2, ZoomIn, ZoomOut, Keyboard } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+import { hasMessage, type MessageKey } from '../i18n';
+
+interface ComparisonViewerProps {
+  before: string;
+  after: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+  /** Sizing of the image frame, e.g. an aspect ratio. */
+  className?: string;
+}
+
+type CompareMode = 'split' | 'onion' | 'side-by-side';
+
+/** Pan offset as a fraction of the pane size, so panes of any size stay in sync. */
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const MODES: { value: CompareMode; label: MessageKey; icon: typeof Blend }[] = [
+  { value: 'split', label: 'compare.split', icon: SplitSquareHorizontal },
+  { value: 'onion', label: 'compare.onion', icon: Blend },
+  { value: 'side-by-side', label: 'compare.sideBySide', icon: Columns2 },
+];
+
+// Keys that read the same in every language are shown as they are.
+const SHORTCUTS: [keys: string, action: MessageKey][] = [
+  ['compare.keys.space', 'compare.shortcut.peek'],
+  ['T', 'compare.shortcut.toggle'],
+  ['Esc', 'compare.shortcut.back'],
+  ['1 / 2 / 3', 'compare.shortcut.modes'],
+  ['← / →', 'compare.shortcut.move'],
+  ['+ / − / 0', 'compare.shortcut.zoom'],
+];
+
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.5;
+const RESET_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+/** Keeps the zoomed image covering the pane. */
+function clampView({ zoom, x, y }: View): View {
+  const limit = (zoom - 1) / 2;
+  return { zoom, x: clamp(x, -limit, limit), y: clamp(y, -limit, limit) };
+}
+
+/** Zooms keeping the point `at` (relative to the pane center, in pane sizes) fixed under the cursor. */
+function zoomTo(view: View, zoom: number, at = { x: 0, y: 0 }): View {
+  const next = clamp(zoom, 1, MAX_ZOOM);
+  const ratio = next / view.zoom;
+  return clampView({ zoom: next, x: at.x - (at.x - view.x) * ratio, y: at.y - (at.y - view.y) * ratio });
+}
+
+function pointIn(element: Element, clientX: number, clientY: number) {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: (clientX - rect.left) / rect.width - 0.5,
+    y: (clientY - rect.top) / rect.height - 0.5,
+  };
+}
+
+/**
+ * Before/after inspector: a draggable split, an onion-skin blend or two panes
+ * side by side, all sharing one zoom (up to 400%) and pan. Keyboard shortcuts
+ * work while the viewer has focus.
+ */
+export default function ComparisonViewer({ before, after, className, ...labels }: ComparisonViewerProps) {
+  const { t } = useI18n();
+  const beforeLabel = labels.beforeLabel ?? t('editor.original');
+  const afterLabel = labels.afterLabel ?? t('editor.result');
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [split, setSplit] = useState(0.5);
+  const [opacity, setOpacity] = useState(0.5);
+  const [view, setView] = useState<View>(RESET_VIEW);
+  const [solo, setSolo] = useState<'before' | 'after' | null>(null);
+  const [isPeeking, setIsPeeking] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const frame = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ kind: 'pan' | 'split'; pointerX: number; pointerY: number; start: View } | null>(null);
+
+  const shown = isPeeking ? 'before' : solo;
+
+  // React's wheel listeners are passive, so zooming with the wheel needs a native one to stop the page scrolling.
+  useEffect(() => {
+    const element = frame.current;
+    if (!element) return;
+    const onWheel = (e: WheelEvent) => {
+      const pane = (e.target as Element).closest('[data-pane]');
+      if (!pane) return;
+      e.preventDefault();
+      const at = pointIn(pane, e.clientX, e.clientY);
+      setView((current) => zoomTo(current, current.zoom * Math.exp(-e.deltaY * 0.002), at));
+    };
+    element.addEventListener('wheel', onWheel, { passive: false });
+    return () => element.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const chooseMode = (next: CompareMode) => {
+    setMode(next);
+    setSolo(null);
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    frame.current?.focus();
+    // Unzoomed there is nothing to pan, so dragging anywhere moves the split.
+    const kind = mode === 'split' && !shown && (view.zoom === 1 || (e.target as Element).closest('[data-split-handle]')) ? 'split' : 'pan';
+    drag.current = { kind, pointerX: e.clientX, pointerY: e.clientY, start: view };
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (kind === 'split') setSplit(clamp(pointIn(e.currentTarget, e.clientX, e.clientY).x + 0.5, 0, 1));
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const current = drag.current;
+    if (!current) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (current.kind === 'split') {
+      setSplit(clamp((e.clientX - rect.left) / rect.width, 0, 1));
+    } else {
+      setView(clampView({
+        zoom: current.start.zoom,
+        x: current.start.x + (e.clientX - current.pointerX) / rect.width,
+        y: current.start.y + (e.clientY - current.pointerY) / rect.height,
+      }));
+    }
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const handleDoubleClick = (e: MouseEvent<HTMLDivElement>) => {
+    const at = pointIn(e.currentTarget, e.clientX, e.clientY);
+    setView((current) => (current.zoom > 1 ? RESET_VIEW : zoomTo(current, 2, at)));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+    const nudge = e.shiftKey ? 0.01 : 0.05;
+    switch (e.key) {
+      case ' ':
+        setIsPeeking(true);
+        break;
+      case 't':
+      case 'T':
+        setSolo((current) => (current === 'before' ? 'after' : 'before'));
+        break;
+      case 'Escape':
+        if (!solo) return;
+        setSolo(null);
+        break;
+      case '1':
+      case '2':
+      case '3':
+        chooseMode(MODES[Number(e.key) - 1].value);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const delta = e.key === 'ArrowLeft' ? -nudge : nudge;
+        if (mode === 'split') setSplit((value) => clamp(value + delta, 0, 1));
+        else if (mode === 'onion') setOpacity((value) => clamp(value + delta, 0, 1));
+        else return;
+        break;
+      }
+      case '+':
+      case '=':
+        setView((current) => zoomTo(current, current.zoom * ZOOM_STEP));
+        break;
+      case '-':
+        setView((current) => zoomTo(current, current.zoom / ZOOM_STEP));
+        break;
+      case '0':
+        setView(RESET_VIEW);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const handleKeyUp = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === ' ') setIsPeeking(false);
+  };
+
+  const transform = `translate(${view.x * 100}%, ${view.y * 100}%) scale(${view.zoom})`;
+
+  const layer = (src: string, alt: string, style?: CSSProperties) => (
+    <div className="absolute inset-0 overflow-hidden" style={style}>
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className="absolute inset-0 w-full h-full object-contain"
+        style={{ transform }}
+      />
+    </div>
+  );
+
+  const badge = (label: string, side: 'left' | 'right') => (
+    <span
+      className={cn(
+        "absolute top-3 px-2 py-0.5 rounded-md bg-black/60 text-white text-[10px] font-semibold uppercase tracking-wider pointer-events-none",
+        side === 'left' ? "left-3" : "right-3"
+      )}
+    >
+      {label}
+    </span>
+  );
+
+  const paneProps = {
+    'data-pane': true,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    onDoubleClick: handleDoubleClick,
+  };
+  const paneClassName = cn(
+    "relative overflow-hidden bg-white select-none touch-none",
+    view.zoom > 1 ? "cursor-grab active:cursor-grabbing" : mode === 'split' && !shown ? "cursor-ew-resize" : "cursor-zoom-in"
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex bg-gray-100 p-1 rounded-xl">
+          {MODES.map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => chooseMode(value)}
+              aria-pressed={mode === value}
+              className={cn(
+                "px-3 py-1.5 rounded-lg text-xs font-medium transition-all flex items-center gap-1.5",
+                mode === value ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
+              )}
+            >
+              <Icon size={14} /> {t(label)}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          {mode === 'onion' && (
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={opacity}
+              onChange={(e) => setOpacity(Number(e.target.value))}
+              aria-label={t('compare.opacity', { label: afterLabel })}
+              className="w-24 accent-emerald-500 mr-2"
+            />
+          )}
+          <button
+            onClick={() => setView((current) => zoomTo(current, current.zoom / ZOOM_STEP))}
+            disabled={view.zoom <= 1}
+            aria-label={t('compare.zoomOut')}
+            className="p-1.5 rounded-lg border border-gray-200 text-gray-500 hover:border-emerald-300 disabled:opacity-40"
+          >
+            <ZoomOut size={14} />
+          </button>
+          <button
+            onClick={() => setView(RESET_VIEW)}
+            className="w-12 text-xs font-semibold text-gray-600 tabular-nums"
+            title={t('compare.resetZoom')}
+          >
+            {Math.round(view.zoom * 100)}%
+          </button>
+          <button
+            onClick={() => setView((current) => zoomTo(current, current.zoom * ZOOM_STEP))}
+            disabled={view.zoom >= MAX_ZOOM}
+            aria-label={t('compare.zoomIn')}
+            className="p-1.5 rounded-lg border border-gray-200 text-gray-500 hover:border-emerald-300 disabled:opacity-40"
+          >
+            <ZoomIn size={14} />
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowShortcuts((open) => !open)}
+              aria-expanded={showShortcuts}
+              aria-label={t('compare.shortcuts')}
+              className={cn(
+                "p-1.5 rounded-lg border transition-colors",
+                showShortcuts ? "border-emerald-500 bg-emerald-50 text-emerald-700" : "border-gray-200 text-gray-500 hover:border-emerald-300"
+              )}
+            >
+              <Keyboard size={14} />
+            </button>
+            {showShortcuts && (
+              <dl className="absolute right-0 top-full mt-2 w-64 z-20 bg-white rounded-2xl border border-black/5 shadow-xl p-4 space-y-1.5 text-xs">
+                {SHORTCUTS.map(([keys, action]) => (
+                  <div key={keys} className="flex justify-between gap-3">
+                    <dt className="font-semibold text-gray-900 whitespace-nowrap">{hasMessage(keys) ? t(keys) : keys}</dt>
+                    <dd className="text-gray-500 text-right">{t(action)}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div
+        ref={frame}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onKeyUp={handleKeyUp}
+        onBlur={() => setIsPeeking(false)}
+        aria-label={t('compare.frame', { before: beforeLabel.toLowerCase(), after: afterLabel.toLowerCase() })}
+        className={cn(
+          "rounded-3xl overflow-hidden bg-gray-100 border border-black/5 outline-none focus-visible:ring-2 focus-visible:ring-emerald-500",
+          mode === 'side-by-side' && !shown ? "grid grid-cols-2 gap-1" : "relative",
+          className
+        )}
+      >
+        {shown ? (
+          <div {...paneProps} className={cn(paneClassName, "absolute inset-0")}>
+            {layer(shown === 'before' ? before : after, shown === 'before' ? beforeLabel : afterLabel)}
+            {badge(shown === 'before' ? beforeLabel : afterLabel, shown === 'before' ? 'left' : 'right')}
+          </div>
+        ) : mode === 'side-by-side' ? (
+          <>
+            <div {...paneProps} className={paneClassName}>
+              {layer(before, beforeLabel)}
+              {badge(beforeLabel, 'left')}
+            </div>
+            <div {...paneProps} className={paneClassName}>
+              {layer(after, afterLabel)}
+              {badge(afterLabel, 'right')}
+            </div>
+          </>
+        ) : (
+          <div {...paneProps} className={cn(paneClassName, "absolute inset-0")}>
+            {layer(before, beforeLabel)}
+            {mode === 'split'
+              ? layer(after, afterLabel, { clipPath: `inset(0 0 0 ${split * 100}%)` })
+              : layer(after, afterLabel, { opacity })}
+            {badge(beforeLabel, 'left')}
+            {badge(afterLabel, 'right')}
+            {mode === 'split' && (
+              <div
+                data-split-handle
+                className="absolute inset-y-0 w-8 -ml-4 flex justify-center cursor-ew-resize"
+                style={{ left: `${split * 100}%` }}
+              >
+                <div className="w-0.5 h-full bg-white shadow-[0_0_4px_rgba(0,0,0,0.4)]" />
+                <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow-md border-2 border-emerald-500 flex items-center justify-center">
+                  <SplitSquareHorizontal size={14} className="text-emerald-500" />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react';
+import { Download, X, RefreshCw, AlertCircle, FileImage, Maximize2, Columns2, Tag } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { loadImage } from '../lib/canvas';
+import { downloadBlob } from '../lib/files';
+import {
+  EXPORT_FORMATS,
+  EXPORT_SCALES,
+  MAX_EXPORT_DIMENSION,
+  exportFilename,
+  exportSize,
+  renderExport,
+  type ExportLayout,
+  type ExportOptions,
+  type ExportSource,
+} from '../lib/export';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../i18n';
+import { describeError } from '../i18n/describe';
+
+interface ExportDialogProps {
+  source: ExportSource;
+  /** File name of the uploaded photo, for naming the export. */
+  originalName: string | null;
+  /** Style id, or "outfit", for naming the export. */
+  styleName: string;
+  onClose: () => void;
+}
+
+const EXPORT_OPTIONS_KEY = 'artistic-studio.export';
+
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: 'image/png', quality: 0.92, scale: 1, layout: 'result' };
+
+const LAYOUTS: { label: MessageKey; value: ExportLayout }[] = [
+  { label: 'export.layoutResult', value: 'result' },
+  { label: 'export.layoutBeforeAfter', value: 'side-by-side' },
+];
+
+function loadExportOptions(): ExportOptions {
+  try {
+    return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(localStorage.getItem(EXPORT_OPTIONS_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_EXPORT_OPTIONS;
+  }
+}
+
+type Size = { width: number; height: number };
+
+export default function ExportDialog({ source, originalName, styleName, onClose }: ExportDialogProps) {
+  const { t } = useI18n();
+  const [options, setOptions] = useState<ExportOptions>(loadExportOptions);
+  const [sizes, setSizes] = useState<{ result: Size; original: Size } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadImage(source.result), loadImage(source.original)]).then(([result, original]) => {
+      if (cancelled) return;
+      setSizes({
+        result: { width: result.naturalWidth, height: result.naturalHeight },
+        original: { width: original.naturalWidth, height: original.naturalHeight },
+      });
+    }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [source.result, source.original]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const update = (changes: Partial<ExportOptions>) => {
+    setOptions((current) => {
+      const next = { ...current, ...changes };
+      localStorage.setItem(EXPORT_OPTIONS_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const format = EXPORT_FORMATS.find((candidate) => candidate.value === options.format)!;
+  const size = sizes && exportSize(sizes.result, sizes.original, options);
+  const isClamped = !!size && Math.max(size.width, size.height) > MAX_EXPORT_DIMENSION;
+  const filename = exportFilename(originalName, styleName, options);
+  const { metadata } = source;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await renderExport(source, options);
+      downloadBlob(blob, exportFilename(originalName, styleName, options));
+      onClose();
+    } catch (err) {
+      setError(describeError(err, t));
+      console.error(err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <motion.div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="relative w-full max-w-lg bg-white rounded-3xl border border-black/5 shadow-xl p-6 space-y-6"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="export-dialog-title" className="text-xl font-bold tracking-tight">{t('export.heading')}</h2>
+          <button onClick={onClose} aria-label={t('export.close')} className="text-gray-400 hover:text-black transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <FileImage size={14} /> {t('export.format')}
+          </span>
+          <div className="flex flex-wrap gap-1.5">
+            {EXPORT_FORMATS.map((candidate) => (
+              <button
+                key={candidate.value}
+                onClick={() => update({ format: candidate.value })}
+                className={cn(
+                  "px-2.5 py-1 rounded-lg border text-xs font-medium transition-all",
+                  options.format === candidate.value ? "border-emerald-500 bg-emerald-50 text-emerald-700" : "border-gray-200 text-gray-500 hover:border-emerald-300"
+                )}
+              >
+                {candidate.label}
+              </button>
+            ))}
+          </div>
+          {format.lossy && (
+            <label className="flex items-center gap-3 text-xs text-gray-500">
+              {t('export.quality')}
+              <input
+                type="range"
+                min={0.5}
+                max={1}
+                step={0.01}
+                value={options.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                className="flex-1 accent-emerald-500"
+              />
+              <span className="w-8 text-right font-semibold text-gray-900">{Math.round(options.quality * 100)}</span>
+            </label>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <Maximize2 size={14} /> {t('export.size')}
+          </span>
+          <div className="flex flex-wrap gap-1.5">
+            {EXPORT_SCALES.map((scale) => (
+              <button
+                key={scale}
+                onClick={() => update({ scale })}
+                className={cn(
+                  "px-2.5 py-1 rounded-lg border text-xs font-medium transition-all",
+                  options.scale === scale ? "border-emerald-500 bg-emerald-50 text-emerald-700" : "border-gray-200 text-gray-500 hover:border-emerald-300"
+                )}
+              >
+                {scale > 1 ? t('export.upscale', { scale }) : `${scale}×`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <Columns2 size={14} /> {t('export.layout')}
+          </span>
+          <div className="flex bg-gray-100 p-1 rounded-xl">
+            {LAYOUTS.map((layout) => (
+              <button
+                key={layout.value}
+                onClick={() => update({ layout: layout.value })}
+                className={cn(
+                  "flex-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-all",
+                  options.layout === layout.value ? "bg-white shadow-sm text-emerald-600" : "text-gray-500 hover:text-gray-700"
+                )}
+              >
+                {t(layout.label)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <Tag size={14} /> {t('export.details')}
+          </span>
+          <dl className="text-xs text-gray-600 space-y-1">
+            {[
+              [t('export.style'), metadata.style ?? t('export.outfitSwap')],
+              [t('export.model'), metadata.model],
+              [t('export.seed'), metadata.seed === null ? null : String(metadata.seed)],
+              [t('export.prompt'), metadata.prompt],
+            ].filter(([, value]) => value).map(([label, value]) => (
+              <div key={label} className="flex gap-3">
+                <dt className="w-12 shrink-0 text-gray-400">{label}</dt>
+                <dd className="truncate" title={value!}>{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+
+        {error && (
+          <p className="flex items-center gap-2 text-red-500 text-sm font-medium">
+            <AlertCircle size={16} /> {error}
+          </p>
+        )}
+
+        <div className="flex flex-col sm:flex-row items-center gap-4 pt-2 border-t border-black/5">
+          <p className="flex-1 min-w-0 text-xs text-gray-500">
+            <span className="block truncate font-medium text-gray-900" title={filename}>{filename}</span>
+            {size && (
+              isClamped
+                ? t('export.capped', { max: MAX_EXPORT_DIMENSION })
+                : `${size.width} × ${size.height} ${format.label}`
+            )}
+          </p>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-5 py-2.5 rounded-xl bg-black text-white text-sm font-semibold flex items-center gap-2 hover:bg-gray-800 transition-colors active:scale-95 disabled:opacity-50"
+          >
+            {isExporting ? <RefreshCw size={16} className="animate-spin" /> : <Download size={16} />} {t('export.download')}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
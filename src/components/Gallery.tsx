@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Download, Trash2, Search, RefreshCw, AlertCircle, Shirt, Clock, History, Wand2, Star, ClipboardCopy, Film } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { cn } from '../lib/utils';
+import { downloadUrl, extensionForMimeType } from '../lib/files';
+import { useI18n } from '../hooks/useI18n';
+import { useStyles } from '../hooks/useStyles';
+import { summarizeParameters } from '../i18n/describe';
+import type { StyleId, TransformMode } from '../shared/styles';
+import StyleIcon from './StyleIcon';
+import HighlightedText from './HighlightedText';
+import { listGenerations, deleteGeneration, generationImageUrl, setFavorite, type GenerationRecord } from '../services/historyService';
+
+export default function Gallery() {
+  const { styles, getStyle } = useStyles();
+  const { locale, t, styleLabel } = useI18n();
+  const [generations, setGenerations] = useState<GenerationRecord[]>([]);
+  const [modeFilter, setModeFilter] = useState<TransformMode | 'all'>('all');
+  const [styleFilter, setStyleFilter] = useState<StyleId | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [showClipFrames, setShowClipFrames] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Outfit swaps and refinements have no style, so the style filter only narrows the other modes.
+  const filtersByStyle = modeFilter !== 'outfit' && modeFilter !== 'refine';
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setGenerations(await listGenerations({
+        mode: modeFilter === 'all' ? undefined : modeFilter,
+        style: styleFilter === 'all' || !filtersByStyle ? undefined : styleFilter,
+        search: search.trim() || undefined,
+        favorite: favoritesOnly || undefined,
+        clipFrames: showClipFrames || undefined,
+      }));
+    } catch (err) {
+      setError(t('gallery.loadFailed'));
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [modeFilter, styleFilter, filtersByStyle, search, favoritesOnly, showClipFrames, t]);
+
+  useEffect(() => {
+    // Debounce so typing in the search box doesn't fire a request per keystroke.
+    const timeout = setTimeout(load, 250);
+    return () => clearTimeout(timeout);
+  }, [load]);
+
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteGeneration(id);
+      setGenerations((current) => current.filter((generation) => generation.id !== id));
+    } catch (err) {
+      setError(t('gallery.deleteFailed'));
+      console.error(err);
+    }
+  };
+
+  const handleFavorite = async (generation: GenerationRecord) => {
+    try {
+      const updated = await setFavorite(generation.id, !generation.favorite);
+      setGenerations((current) => current
+        .map((other) => (other.id === updated.id ? updated : other))
+        .filter((other) => !favoritesOnly || other.favorite));
+    } catch (err) {
+      setError(t('gallery.updateFailed'));
+      console.error(err);
+    }
+  };
+
+  const copyPrompt = (generation: GenerationRecord) => {
+    if (generation.prompt) navigator.clipboard.writeText(generation.prompt);
+  };
+
+  const handleDownload = (generation: GenerationRecord) => {
+    downloadUrl(
+      generationImageUrl(generation.id, 'result'),
+      `${generation.style ?? 'outfit'}-${generation.id}.${extensionForMimeType(generation.resultMimeType)}`,
+    );
+  };
+
+  return (
+    <motion.div
+      key="gallery"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">
+            <HighlightedText text={t('gallery.heading')} highlight={t('gallery.headingHighlight')} />
+          </h2>
+          <p className="text-gray-500 mt-1">{t('gallery.intro')}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={modeFilter}
+            onChange={(e) => setModeFilter(e.target.value as TransformMode | 'all')}
+            className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm outline-none focus:border-emerald-500"
+          >
+            <option value="all">{t('gallery.allModes')}</option>
+            <option value="style">{t('gallery.modeStyle')}</option>
+            <option value="outfit">{t('gallery.modeOutfit')}</option>
+            <option value="refine">{t('gallery.modeRefine')}</option>
+          </select>
+          <select
+            value={styleFilter}
+            onChange={(e) => setStyleFilter(e.target.value as StyleId | 'all')}
+            disabled={!filtersByStyle}
+            className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm outline-none focus:border-emerald-500 disabled:opacity-50"
+          >
+            <option value="all">{t('gallery.allStyles')}</option>
+            {styles.map((style) => (
+              <option key={style.id} value={style.id}>{styleLabel(style)}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setFavoritesOnly(!favoritesOnly)}
+            className={cn(
+              "px-3 py-2 rounded-xl border text-sm flex items-center gap-1.5 transition-colors",
+              favoritesOnly ? "border-amber-300 bg-amber-50 text-amber-600" : "border-gray-200 bg-white text-gray-500 hover:text-black"
+            )}
+          >
+            <Star size={14} fill={favoritesOnly ? 'currentColor' : 'none'} /> {t('gallery.favorites')}
+          </button>
+          <button
+            onClick={() => setShowClipFrames(!showClipFrames)}
+            aria-pressed={showClipFrames}
+            className={cn(
+              "px-3 py-2 rounded-xl border text-sm flex items-center gap-1.5 transition-colors",
+              showClipFrames ? "border-emerald-300 bg-emerald-50 text-emerald-600" : "border-gray-200 bg-white text-gray-500 hover:text-black"
+            )}
+          >
+            <Film size={14} /> {t('gallery.clipFrames')}
+          </button>
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t('gallery.search')}
+              className="pl-8 pr-3 py-2 rounded-xl border border-gray-200 bg-white text-sm outline-none focus:border-emerald-500 w-56"
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-500 text-sm font-medium">
+          <AlertCircle size={16} /> {error}
+        </div>
+      )}
+
+      {isLoading && generations.length === 0 ? (
+        <div className="flex justify-center py-24">
+          <RefreshCw className="animate-spin text-emerald-500" size={32} />
+        </div>
+      ) : generations.length === 0 ? (
+        <div className="flex flex-col items-center gap-4 py-24 text-center">
+          <div className="w-20 h-20 bg-emerald-50 rounded-full flex items-center justify-center text-emerald-500">
+            <History size={40} />
+          </div>
+          <p className="text-gray-500">{t('gallery.empty')}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          <AnimatePresence>
+            {generations.map((generation) => {
+              const style = generation.style ? getStyle(generation.style) : undefined;
+              const label = style ? styleLabel(style) : generation.style;
+              const summary = generation.parameters ? summarizeParameters(generation.parameters, t) : [];
+              return (
+                <motion.div
+                  key={generation.id}
+                  layout
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.95 }}
+                  className="rounded-2xl overflow-hidden bg-white border border-black/5 shadow-sm"
+                >
+                  <div className="relative aspect-square bg-gray-100">
+                    <img
+                      src={generationImageUrl(generation.id, 'result')}
+                      alt={label ? t('gallery.styleResultAlt', { style: label }) : t('gallery.resultAlt')}
+                      loading="lazy"
+                      className="w-full h-full object-contain bg-white"
+                    />
+                    <img
+                      src={generationImageUrl(generation.id, 'original')}
+                      alt={t('gallery.originalAlt')}
+                      loading="lazy"
+                      className="absolute bottom-3 left-3 w-16 h-16 rounded-lg object-cover border-2 border-white shadow-md"
+                    />
+                    <button
+                      onClick={() => handleFavorite(generation)}
+                      className={cn(
+                        "absolute top-3 right-3 w-8 h-8 rounded-full bg-white/90 shadow-sm flex items-center justify-center transition-colors",
+                        generation.favorite ? "text-amber-500" : "text-gray-400 hover:text-amber-500"
+                      )}
+                      aria-label={generation.favorite ? t('gallery.unfavorite') : t('gallery.favorite')}
+                    >
+                      <Star size={16} fill={generation.favorite ? 'currentColor' : 'none'} />
+                    </button>
+                  </div>
+                  <div className="p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+                        {generation.mode === 'style' ? (
+                          <><StyleIcon name={style?.icon} size={14} className="text-emerald-500" /> {label}</>
+                        ) : generation.mode === 'refine' ? (
+                          <><Wand2 size={14} className="text-emerald-500" /> {t('gallery.refinement')}</>
+                        ) : (
+                          <><Shirt size={14} className="text-emerald-500" /> {t('gallery.outfitSwap')}</>
+                        )}
+                      </span>
+                      <span className="text-[10px] text-gray-400 flex items-center gap-1">
+                        <Clock size={10} /> {(generation.durationMs / 1000).toFixed(1)}s
+                      </span>
+                    </div>
+                    {(generation.outfitPrompt || generation.instruction) && (
+                      <p className="text-sm text-gray-600 line-clamp-2">{generation.outfitPrompt ?? generation.instruction}</p>
+                    )}
+                    {summary.length > 0 && (
+                      <p className="text-xs text-gray-500">{summary.join(' • ')}</p>
+                    )}
+                    <p className="text-[10px] text-gray-400 flex items-center gap-1">
+                      <span className="flex-1">
+                        {new Date(generation.createdAt).toLocaleString(locale)} • {generation.model}
+                        {generation.seed !== null && ` • ${t('gallery.seed', { seed: generation.seed })}`}
+                      </span>
+                      {generation.prompt && (
+                        <button
+                          onClick={() => copyPrompt(generation)}
+                          className="p-1 rounded text-gray-400 hover:text-emerald-600 transition-colors"
+                          aria-label={t('gallery.copyPrompt')}
+                          title={generation.prompt}
+                        >
+                          <ClipboardCopy size={12} />
+                        </button>
+                      )}
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleDownload(generation)}
+                        className="flex-1 bg-black text-white px-3 py-2 rounded-lg text-sm font-semibold flex items-center justify-center gap-2 hover:bg-gray-800 transition-colors active:scale-95"
+                      >
+                        <Download size={14} /> {t('gallery.download')}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(generation.id)}
+                        className={cn(
+                          "px-3 py-2 rounded-lg border border-black/10 text-gray-500 transition-colors active:scale-95",
+                          "hover:text-red-500 hover:border-red-200 hover:bg-red-50"
+                        )}
+                        aria-label={t('gallery.delete')}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        </div>
+      )}
+    </motion.div>
+  );
+}
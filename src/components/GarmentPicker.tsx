@@ -0,0 +1,94 @@
+import { useState, useCallback } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Shirt, Plus, X, AlertCircle, RefreshCw } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+import { describeError } from '../i18n/describe';
+import { DEFAULT_PREPROCESS_OPTIONS, preprocessFile } from '../lib/preprocess';
+import { MAX_GARMENT_IMAGES } from '../shared/styles';
+
+interface GarmentPickerProps {
+  value: string[];
+  onChange: (garments: string[]) => void;
+  disabled?: boolean;
+}
+
+// Product shots only need to show the garment; keep them small so several fit in one request.
+const GARMENT_OPTIONS = { ...DEFAULT_PREPROCESS_OPTIONS, maxDimension: 1024 };
+
+export default function GarmentPicker({ value, onChange, disabled }: GarmentPickerProps) {
+  const { t } = useI18n();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const remaining = MAX_GARMENT_IMAGES - value.length;
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    setError(null);
+    if (acceptedFiles.length > remaining) {
+      setError(t('garments.tooMany', { max: MAX_GARMENT_IMAGES }));
+    }
+    setIsLoading(true);
+    try {
+      const images = await Promise.all(acceptedFiles.slice(0, remaining).map((file) => preprocessFile(file, GARMENT_OPTIONS)));
+      onChange([...value, ...images.map((image) => image.dataUrl)]);
+    } catch (err) {
+      setError(describeError(err, t));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [value, onChange, remaining, t]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { 'image/*': [] },
+    multiple: true,
+    disabled: disabled || remaining <= 0,
+  });
+
+  return (
+    <div className="space-y-2">
+      <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+        <Shirt size={14} /> {t('garments.heading')}
+      </span>
+      <div className="grid grid-cols-4 gap-2">
+        {value.map((garment, index) => (
+          <div key={index} className="relative group aspect-square rounded-xl overflow-hidden bg-gray-100 border border-black/5">
+            <img src={garment} alt={t('garments.alt', { index: index + 1 })} className="w-full h-full object-cover" />
+            <button
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/70 text-white flex opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 focus-visible:opacity-100 items-center justify-center"
+              aria-label={t('garments.remove', { index: index + 1 })}
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+        {remaining > 0 && (
+          <div
+            {...getRootProps()}
+            className={cn(
+              "aspect-square rounded-xl border-2 border-dashed flex items-center justify-center transition-all cursor-pointer",
+              isDragActive ? "border-emerald-500 bg-emerald-50/50" : "border-gray-200 hover:border-emerald-400 hover:bg-gray-50",
+              disabled && "opacity-50 cursor-not-allowed",
+            )}
+          >
+            <input {...getInputProps()} />
+            {isLoading
+              ? <RefreshCw size={18} className="animate-spin text-emerald-500" />
+              : <Plus size={18} className="text-gray-400" />}
+          </div>
+        )}
+      </div>
+      {error ? (
+        <p className="flex items-center gap-2 text-red-500 text-xs font-medium">
+          <AlertCircle size={14} /> {error}
+        </p>
+      ) : (
+        <p className="text-[10px] text-gray-400 leading-tight">
+          {t('garments.hint', { max: MAX_GARMENT_IMAGES })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+interface HighlightedTextProps {
+  /** A catalog string with a `{highlight}` placeholder. */
+  text: string;
+  highlight: string;
+}
+
+/** Renders the `{highlight}` placeholder as the accent-colored word of a heading. */
+export default function HighlightedText({ text, highlight }: HighlightedTextProps) {
+  const [before, after = ''] = text.split('{highlight}');
+  return <>{before}<span className="text-emerald-500">{highlight}</span>{after}</>;
+}
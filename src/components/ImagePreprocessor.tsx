@@ -0,0 +1,335 @@
+import { useState, useEffect, useRef, type PointerEvent } from 'react';
+import { Crop, Check, X, RefreshCw, AlertCircle, Maximize2, FileImage } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+import { describeError } from '../i18n/describe';
+import HighlightedText from './HighlightedText';
+import {
+  DEFAULT_PREPROCESS_OPTIONS,
+  MAX_DIMENSION_CHOICES,
+  decodeImageFile,
+  formatBytes,
+  preprocessImage,
+  type CropRect,
+  type OutputFormat,
+  type PreprocessOptions,
+  type PreprocessedImage,
+} from '../lib/preprocess';
+
+interface ImagePreprocessorProps {
+  file: File;
+  onConfirm: (image: PreprocessedImage) => void;
+  onCancel: () => void;
+}
+
+const MAX_DIMENSION_STORAGE_KEY = 'artistic-studio.max-dimension';
+
+// Free and Auto are translated where they render; ratios and format names read the same in every language.
+const ASPECT_RATIOS: { label: string; value: number | null }[] = [
+  { label: 'Free', value: null },
+  { label: '1:1', value: 1 },
+  { label: '4:5', value: 4 / 5 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '16:9', value: 16 / 9 },
+];
+
+const FORMATS: { label: string; value: OutputFormat }[] = [
+  { label: 'Auto', value: 'auto' },
+  { label: 'JPEG', value: 'image/jpeg' },
+  { label: 'PNG', value: 'image/png' },
+  { label: 'WebP', value: 'image/webp' },
+];
+
+const MIN_CROP = 0.05;
+
+type DragHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+function loadMaxDimension(): number | null {
+  const stored = localStorage.getItem(MAX_DIMENSION_STORAGE_KEY);
+  if (stored === null) return DEFAULT_PREPROCESS_OPTIONS.maxDimension;
+  return stored === 'original' ? null : Number(stored) || DEFAULT_PREPROCESS_OPTIONS.maxDimension;
+}
+
+/** The largest centered crop with the given aspect ratio (in image pixels). */
+function centeredCrop(aspect: number, imageWidth: number, imageHeight: number): CropRect {
+  const imageAspect = imageWidth / imageHeight;
+  const width = aspect > imageAspect ? 1 : aspect / imageAspect;
+  const height = aspect > imageAspect ? imageAspect / aspect : 1;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+export default function ImagePreprocessor({ file, onConfirm, onCancel }: ImagePreprocessorProps) {
+  const { t } = useI18n();
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [sourcePreview, setSourcePreview] = useState<string | null>(null);
+  const [options, setOptions] = useState<PreprocessOptions>(() => ({ ...DEFAULT_PREPROCESS_OPTIONS, maxDimension: loadMaxDimension() }));
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [isCropping, setIsCropping] = useState(false);
+  const [result, setResult] = useState<PreprocessedImage | null>(null);
+  // The raw error, described at render time in the current language.
+  const [error, setError] = useState<unknown>(null);
+  const frame = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ handle: DragHandle; startX: number; startY: number; crop: CropRect } | null>(null);
+
+  useEffect(() => {
+    let decoded: ImageBitmap | null = null;
+    let cancelled = false;
+    decodeImageFile(file)
+      .then((image) => {
+        decoded = image;
+        if (cancelled) return image.close();
+        setBitmap(image);
+        // An upright, lightweight copy to draw the crop box over.
+        setSourcePreview(preprocessImage(image, { ...DEFAULT_PREPROCESS_OPTIONS, maxDimension: 1024, format: 'image/jpeg' }).dataUrl);
+      })
+      .catch(setError);
+    return () => {
+      cancelled = true;
+      decoded?.close();
+    };
+  }, [file]);
+
+  // Re-encode whenever a setting changes so the size shown is the size sent.
+  useEffect(() => {
+    if (!bitmap) return;
+    const timeout = setTimeout(() => {
+      try {
+        setResult(preprocessImage(bitmap, options));
+        setError(null);
+      } catch (err) {
+        setResult(null);
+        setError(err);
+      }
+    }, 150);
+    return () => clearTimeout(timeout);
+  }, [bitmap, options]);
+
+  const update = (changes: Partial<PreprocessOptions>) => setOptions((current) => ({ ...current, ...changes }));
+
+  const setMaxDimension = (maxDimension: number | null) => {
+    localStorage.setItem(MAX_DIMENSION_STORAGE_KEY, maxDimension === null ? 'original' : String(maxDimension));
+    update({ maxDimension });
+  };
+
+  const chooseAspect = (value: number | null) => {
+    setAspect(value);
+    setIsCropping(true);
+    if (!bitmap) return;
+    update({ crop: value ? centeredCrop(value, bitmap.width, bitmap.height) : options.crop ?? { x: 0.1, y: 0.1, width: 0.8, height: 0.8 } });
+  };
+
+  const handlePointerDown = (handle: DragHandle) => (e: PointerEvent<HTMLDivElement>) => {
+    if (!options.crop) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { handle, startX: e.clientX, startY: e.clientY, crop: options.crop };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const state = drag.current;
+    const rect = frame.current?.getBoundingClientRect();
+    if (!state || !rect || !bitmap) return;
+    const dx = (e.clientX - state.startX) / rect.width;
+    const dy = (e.clientY - state.startY) / rect.height;
+    const { crop, handle } = state;
+
+    if (handle === 'move') {
+      update({ crop: { ...crop, x: clamp(crop.x + dx, 0, 1 - crop.width), y: clamp(crop.y + dy, 0, 1 - crop.height) } });
+      return;
+    }
+
+    const right = crop.x + crop.width;
+    const bottom = crop.y + crop.height;
+    let x = handle.includes('w') ? clamp(crop.x + dx, 0, right - MIN_CROP) : crop.x;
+    let y = handle.includes('n') ? clamp(crop.y + dy, 0, bottom - MIN_CROP) : crop.y;
+    let width = handle.includes('w') ? right - x : clamp(crop.width + dx, MIN_CROP, 1 - crop.x);
+    let height = handle.includes('n') ? bottom - y : clamp(crop.height + dy, MIN_CROP, 1 - crop.y);
+
+    if (aspect) {
+      // Keep the ratio in pixels by deriving the height from the width.
+      const imageAspect = bitmap.width / bitmap.height;
+      height = (width * imageAspect) / aspect;
+      const maxHeight = handle.includes('n') ? bottom : 1 - crop.y;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = (height * aspect) / imageAspect;
+        if (handle.includes('w')) x = right - width;
+      }
+      if (handle.includes('n')) y = bottom - height;
+    }
+    update({ crop: { x, y, width, height } });
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const crop = options.crop;
+
+  return (
+    <motion.div
+      key="preprocess"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0 }}
+      className="max-w-3xl mx-auto space-y-6"
+    >
+      <div className="text-center">
+        <h2 className="text-3xl font-bold tracking-tight">
+          <HighlightedText text={t('preprocess.heading')} highlight={t('preprocess.headingHighlight')} />
+        </h2>
+        <p className="text-gray-500 mt-1 truncate">{file.name} • {formatBytes(file.size)}</p>
+      </div>
+
+      {error != null && (
+        <div className="flex items-center justify-center gap-2 text-red-500 text-sm font-medium">
+          <AlertCircle size={16} /> {describeError(error, t)}
+        </div>
+      )}
+
+      <div className="rounded-3xl bg-gray-100 border border-black/5 p-4 flex items-center justify-center min-h-64">
+        {sourcePreview ? (
+          <div
+            ref={frame}
+            className="relative inline-block select-none touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <img src={sourcePreview} alt={t('preprocess.preview')} className="max-h-[28rem] w-auto block" draggable={false} />
+            {isCropping && crop && (
+              <div
+                className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] cursor-move"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                }}
+                onPointerDown={handlePointerDown('move')}
+              >
+                {(['nw', 'ne', 'sw', 'se'] as const).map((corner) => (
+                  <div
+                    key={corner}
+                    onPointerDown={handlePointerDown(corner)}
+                    className={cn(
+                      "absolute w-4 h-4 bg-white rounded-full border-2 border-emerald-500",
+                      corner.includes('n') ? "-top-2" : "-bottom-2",
+                      corner.includes('w') ? "-left-2" : "-right-2",
+                      corner === 'nw' || corner === 'se' ? "cursor-nwse-resize" : "cursor-nesw-resize",
+                    )}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        ) : error == null ? (
+          <RefreshCw className="animate-spin text-emerald-500" size={32} />
+        ) : null}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <Crop size={14} /> {t('preprocess.crop')}
+          </span>
+          <div className="flex flex-wrap gap-1.5">
+            {ASPECT_RATIOS.map((ratio) => (
+              <button
+                key={ratio.label}
+                onClick={() => chooseAspect(ratio.value)}
+                disabled={!bitmap}
+                className={cn(
+                  "px-2.5 py-1 rounded-lg border text-xs font-medium transition-all",
+                  isCropping && aspect === ratio.value ? "border-emerald-500 bg-emerald-50 text-emerald-700" : "border-gray-200 text-gray-500 hover:border-emerald-300"
+                )}
+              >
+                {ratio.value === null ? t('preprocess.free') : ratio.label}
+              </button>
+            ))}
+            {isCropping && (
+              <button
+                onClick={() => { setIsCropping(false); update({ crop: null }); }}
+                className="px-2.5 py-1 rounded-lg text-xs font-medium text-gray-400 hover:text-black"
+              >
+                {t('preprocess.noCrop')}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <Maximize2 size={14} /> {t('preprocess.maxSize')}
+          </span>
+          <div className="flex flex-wrap gap-1.5">
+            {MAX_DIMENSION_CHOICES.map((choice) => (
+              <button
+                key={choice ?? 'original'}
+                onClick={() => setMaxDimension(choice)}
+                className={cn(
+                  "px-2.5 py-1 rounded-lg border text-xs font-medium transition-all",
+                  options.maxDimension === choice ? "border-emerald-500 bg-emerald-50 text-emerald-700" : "border-gray-200 text-gray-500 hover:border-emerald-300"
+                )}
+              >
+                {choice ? `${choice}px` : t('preprocess.original')}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <FileImage size={14} /> {t('preprocess.format')}
+          </span>
+          <div className="flex flex-wrap gap-1.5">
+            {FORMATS.map((format) => (
+              <button
+                key={format.value}
+                onClick={() => update({ format: format.value })}
+                className={cn(
+                  "px-2.5 py-1 rounded-lg border text-xs font-medium transition-all",
+                  options.format === format.value ? "border-emerald-500 bg-emerald-50 text-emerald-700" : "border-gray-200 text-gray-500 hover:border-emerald-300"
+                )}
+              >
+                {format.value === 'auto' ? t('preprocess.auto') : format.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-center gap-4 p-4 rounded-2xl bg-white border border-black/5">
+        <p className="flex-1 text-sm text-gray-500">
+          {result ? (
+            <>
+              {t('preprocess.willSend')} <span className="font-semibold text-gray-900">{result.width} × {result.height}</span>{' '}
+              {result.mimeType.replace('image/', '').toUpperCase()} •{' '}
+              <span className="font-semibold text-gray-900">{formatBytes(result.bytes)}</span>
+            </>
+          ) : (
+            t('preprocess.processing')
+          )}
+        </p>
+        <button
+          onClick={onCancel}
+          className="px-5 py-2.5 rounded-xl border border-black/10 text-sm font-semibold flex items-center gap-2 hover:bg-gray-50 transition-colors"
+        >
+          <X size={16} /> {t('common.cancel')}
+        </button>
+        <button
+          onClick={() => result && onConfirm(result)}
+          disabled={!result}
+          className="px-5 py-2.5 rounded-xl bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-semibold flex items-center gap-2 shadow-lg shadow-emerald-500/20 transition-all active:scale-95 disabled:opacity-50 disabled:shadow-none"
+        >
+          <Check size={16} /> {t('preprocess.use')}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState, useEffect, useRef, type PointerEvent } from 'react';
+import { Brush, Eraser, Lasso, FlipHorizontal2, Trash2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { loadImage } from '../lib/canvas';
+import { exportMask } from '../lib/mask';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../i18n';
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface MaskEditorProps {
+  image: string;
+  mask: string | null;
+  onChange: (mask: string | null) => void;
+}
+
+const MASK_COLOR = '#10b981';
+
+const TOOLS: { id: MaskTool; label: MessageKey; icon: typeof Brush }[] = [
+  { id: 'brush', label: 'mask.brush', icon: Brush },
+  { id: 'eraser', label: 'mask.eraser', icon: Eraser },
+  { id: 'lasso', label: 'mask.lasso', icon: Lasso },
+];
+
+/**
+ * Paints the region the model may change on top of the original photo. The
+ * mask canvas matches the photo's natural size so it lines up pixel for pixel.
+ */
+export default function MaskEditor({ image, mask, onChange }: MaskEditorProps) {
+  const { t } = useI18n();
+  const maskCanvas = useRef<HTMLCanvasElement>(null);
+  const previewCanvas = useRef<HTMLCanvasElement>(null);
+  const stroke = useRef<Point[] | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(24);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image).then((loaded) => {
+      if (!cancelled) setSize({ width: loaded.naturalWidth, height: loaded.naturalHeight });
+    });
+    return () => { cancelled = true; };
+  }, [image]);
+
+  // Restore a previously painted mask once the canvas has its final size.
+  useEffect(() => {
+    const canvas = maskCanvas.current;
+    if (!size || !canvas || !mask) return;
+    loadImage(mask).then((loaded) => {
+      const context = canvas.getContext('2d')!;
+      context.drawImage(loaded, 0, 0, canvas.width, canvas.height);
+      const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+      for (let i = 0; i < pixels.data.length; i += 4) {
+        pixels.data[i + 3] = pixels.data[i];
+        pixels.data[i] = 16;
+        pixels.data[i + 1] = 185;
+        pixels.data[i + 2] = 129;
+      }
+      context.putImageData(pixels, 0, 0);
+    });
+    // Only on (re)size: afterwards the canvas itself is the source of truth.
+  }, [size]);
+
+  const toCanvasPoint = (e: PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const scale = () => {
+    const canvas = maskCanvas.current!;
+    return canvas.width / canvas.getBoundingClientRect().width;
+  };
+
+  const paintSegment = (from: Point, to: Point) => {
+    const context = maskCanvas.current!.getContext('2d')!;
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.strokeStyle = MASK_COLOR;
+    context.lineWidth = brushSize * scale();
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    context.stroke();
+  };
+
+  const drawLassoPreview = (points: Point[]) => {
+    const canvas = previewCanvas.current!;
+    const context = canvas.getContext('2d')!;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.strokeStyle = MASK_COLOR;
+    context.lineWidth = 2 * scale();
+    context.setLineDash([6 * scale(), 4 * scale()]);
+    context.beginPath();
+    points.forEach((point, index) => (index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+    context.stroke();
+  };
+
+  const commit = () => onChange(exportMask(maskCanvas.current!));
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    stroke.current = [point];
+    if (tool !== 'lasso') paintSegment(point, point);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const points = stroke.current;
+    if (!points) return;
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      points.push(point);
+      drawLassoPreview(points);
+    } else {
+      paintSegment(points[points.length - 1], point);
+      points.push(point);
+    }
+  };
+
+  const handlePointerUp = () => {
+    const points = stroke.current;
+    stroke.current = null;
+    if (!points) return;
+
+    if (tool === 'lasso' && points.length > 2) {
+      const context = maskCanvas.current!.getContext('2d')!;
+      context.globalCompositeOperation = 'source-over';
+      context.fillStyle = MASK_COLOR;
+      context.beginPath();
+      points.forEach((point, index) => (index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+      context.closePath();
+      context.fill();
+    }
+    const preview = previewCanvas.current!;
+    preview.getContext('2d')!.clearRect(0, 0, preview.width, preview.height);
+    commit();
+  };
+
+  const invert = () => {
+    const canvas = maskCanvas.current!;
+    const context = canvas.getContext('2d')!;
+    context.globalCompositeOperation = 'xor';
+    context.fillStyle = MASK_COLOR;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.globalCompositeOperation = 'source-over';
+    commit();
+  };
+
+  const clear = () => {
+    const canvas = maskCanvas.current!;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-1 flex-wrap">
+        {TOOLS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => setTool(id)}
+            className={cn(
+              "px-2.5 py-1.5 rounded-lg text-xs font-semibold flex items-center gap-1.5 transition-colors",
+              tool === id ? "bg-emerald-500 text-white" : "bg-gray-100 text-gray-500 hover:text-emerald-600"
+            )}
+          >
+            <Icon size={14} /> {t(label)}
+          </button>
+        ))}
+        <div className="flex-1" />
+        <button
+          onClick={invert}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 transition-colors"
+          aria-label={t('mask.invert')}
+          title={t('mask.invert')}
+        >
+          <FlipHorizontal2 size={14} />
+        </button>
+        <button
+          onClick={clear}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+          aria-label={t('mask.clear')}
+          title={t('mask.clear')}
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {tool !== 'lasso' && (
+        <label className="flex items-center gap-3 text-xs text-gray-500">
+          {t('mask.size')}
+          <input
+            type="range"
+            min={4}
+            max={80}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="flex-1 accent-emerald-500"
+          />
+        </label>
+      )}
+
+      <div className="rounded-2xl overflow-hidden bg-gray-100 border border-black/5 relative">
+        <img src={image} alt={t('editor.original')} className="w-full h-auto block select-none" draggable={false} />
+        {size && (
+          <>
+            <canvas
+              ref={maskCanvas}
+              width={size.width}
+              height={size.height}
+              className="absolute inset-0 w-full h-full opacity-50 pointer-events-none"
+            />
+            <canvas
+              ref={previewCanvas}
+              width={size.width}
+              height={size.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+            />
+          </>
+        )}
+      </div>
+      <p className="text-[10px] text-gray-400 leading-tight">
+        {t('mask.hint')}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { Cpu } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import { useModels } from '../hooks/useModels';
+
+interface ModelPickerProps {
+  disabled?: boolean;
+}
+
+export default function ModelPicker({ disabled }: ModelPickerProps) {
+  const { models, selectedModel, setSelectedModel } = useModels();
+  const { t, modelLabel, modelDescription } = useI18n();
+  const selected = models.find((model) => model.id === selectedModel);
+
+  // A server with a single model leaves nothing to pick.
+  if (models.length < 2) return null;
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="model-picker" className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+        <Cpu size={14} /> {t('model.label')}
+      </label>
+      <select
+        id="model-picker"
+        value={selectedModel ?? ''}
+        onChange={(e) => setSelectedModel(e.target.value)}
+        disabled={disabled}
+        className="w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm outline-none focus:border-emerald-500 disabled:opacity-50"
+      >
+        {models.map((model) => (
+          <option key={model.id} value={model.id}>{modelLabel(model)}</option>
+        ))}
+      </select>
+      {selected && <p className="text-xs text-gray-400">{modelDescription(selected)}</p>}
+    </div>
+  );
+}
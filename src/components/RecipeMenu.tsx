@@ -0,0 +1,96 @@
+import { useState, useRef } from 'react';
+import { Link2, FileDown, FileUp, Check, AlertCircle, BookMarked } from 'lucide-react';
+import { downloadBlob } from '../lib/files';
+import { useI18n } from '../hooks/useI18n';
+import { parseRecipe, recipeToHash, type Recipe } from '../shared/recipes';
+
+interface RecipeMenuProps {
+  recipe: Recipe;
+  onImport: (recipe: Recipe) => void;
+}
+
+export default function RecipeMenu({ recipe, onImport }: RecipeMenuProps) {
+  const { t } = useI18n();
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const flash = (message: string) => {
+    setError(null);
+    setNotice(message);
+    setTimeout(() => setNotice(null), 2000);
+  };
+
+  const copyLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${recipeToHash(recipe)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      flash(t('recipeMenu.copied'));
+    } catch {
+      // Clipboard access can be denied; the address bar still holds the link.
+      window.history.replaceState(null, '', url);
+      flash(t('recipeMenu.inAddressBar'));
+    }
+  };
+
+  const exportRecipe = () => {
+    const name = recipe.mode === 'style' ? recipe.style?.id ?? 'style' : 'outfit';
+    downloadBlob(new Blob([JSON.stringify(recipe, null, 2)], { type: 'application/json' }), `recipe-${name}.json`);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImport(parseRecipe(JSON.parse(await file.text())));
+      flash(t('recipeMenu.loaded'));
+    } catch (err) {
+      setError(err instanceof SyntaxError ? t('recipeMenu.invalidJson') : err instanceof Error ? err.message : String(err));
+    } finally {
+      if (importRef.current) importRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+        <BookMarked size={14} /> {t('recipeMenu.heading')}
+      </span>
+      <div className="flex gap-2">
+        <button
+          onClick={copyLink}
+          className="flex-1 px-3 py-2 rounded-xl border border-black/10 text-xs font-semibold flex items-center justify-center gap-1.5 hover:bg-gray-50 transition-colors"
+        >
+          <Link2 size={14} /> {t('recipeMenu.copyLink')}
+        </button>
+        <button
+          onClick={exportRecipe}
+          className="px-3 py-2 rounded-xl border border-black/10 text-xs font-semibold flex items-center gap-1.5 hover:bg-gray-50 transition-colors"
+        >
+          <FileDown size={14} /> {t('recipeMenu.export')}
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+        <button
+          onClick={() => importRef.current?.click()}
+          className="px-3 py-2 rounded-xl border border-black/10 text-xs font-semibold flex items-center gap-1.5 hover:bg-gray-50 transition-colors"
+        >
+          <FileUp size={14} /> {t('recipeMenu.import')}
+        </button>
+      </div>
+      {error ? (
+        <p className="flex items-center gap-2 text-red-500 text-xs font-medium">
+          <AlertCircle size={14} /> {error}
+        </p>
+      ) : notice ? (
+        <p className="flex items-center gap-1.5 text-xs font-medium text-emerald-600">
+          <Check size={14} /> {notice}
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState, useMemo, useRef, type FormEvent } from 'react';
+import { Wand2, Send, RefreshCw, AlertCircle, GitBranch, Columns2, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { maskableImage } from '../lib/mask';
+import { parseDataUrl } from '../shared/dataUrl';
+import { MAX_INSTRUCTION_LENGTH } from '../shared/styles';
+import { refineImage, isAbortError } from '../services/geminiService';
+import { describeGenerationError } from '../i18n/describe';
+import { useI18n } from '../hooks/useI18n';
+import { useModels } from '../hooks/useModels';
+import type { ImageVersion, VersionHistory } from '../hooks/useVersionHistory';
+import ComparisonViewer from './ComparisonViewer';
+
+interface RefinePanelProps {
+  history: VersionHistory;
+  /** Region mask from the editor; refinements leave the pixels outside it alone too. */
+  mask?: string | null;
+  disabled?: boolean;
+}
+
+/** Depth-first, oldest first, so each branch sits directly under the version it came from. */
+function orderVersions(versions: ImageVersion[]): ImageVersion[] {
+  const ordered: ImageVersion[] = [];
+  const visit = (parentId: string | null) => {
+    versions
+      .filter((version) => version.parentId === parentId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach((version) => {
+        ordered.push(version);
+        visit(version.id);
+      });
+  };
+  visit(null);
+  return ordered;
+}
+
+export default function RefinePanel({ history, mask, disabled }: RefinePanelProps) {
+  const { versions, current, select, refine, depthOf } = history;
+  const { selectedModel } = useModels();
+  const { t } = useI18n();
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const abortController = useRef<AbortController | null>(null);
+
+  const ordered = useMemo(() => orderVersions(versions), [versions]);
+  const numberOf = (version: ImageVersion) => versions.indexOf(version) + 1;
+  const compared = compareIds
+    .map((id) => versions.find((version) => version.id === id))
+    .filter((version): version is ImageVersion => !!version);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!current || !instruction.trim()) return;
+
+    const parent = current;
+    const controller = new AbortController();
+    abortController.current = controller;
+    setIsRefining(true);
+    setError(null);
+    try {
+      const { mimeType, data } = parseDataUrl(mask ? await maskableImage(parent.image) : parent.image);
+      const { image, generation } = await refineImage(data, mimeType, instruction.trim(), { signal: controller.signal, mask, model: selectedModel ?? undefined });
+      refine(image, instruction.trim(), parent.id, generation);
+      setInstruction('');
+    } catch (err) {
+      if (!isAbortError(err)) setError(describeGenerationError(err, t));
+    } finally {
+      abortController.current = null;
+      setIsRefining(false);
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids.slice(-1), id]));
+  };
+
+  if (!current) return null;
+  const [appliesBefore, appliesAfter = ''] = t('refine.appliesTo').split('{version}');
+
+  return (
+    <div className="space-y-4 p-5 rounded-3xl bg-white border border-black/5">
+      <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+        <Wand2 size={14} /> {t('refine.heading')}
+      </span>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          maxLength={MAX_INSTRUCTION_LENGTH}
+          disabled={isRefining || disabled}
+          placeholder={t('refine.placeholder')}
+          className="flex-1 px-4 py-2.5 rounded-xl border border-gray-200 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-all text-sm disabled:opacity-60"
+        />
+        {isRefining ? (
+          <button
+            type="button"
+            onClick={() => abortController.current?.abort()}
+            className="px-4 rounded-xl border border-black/10 text-gray-600 text-sm font-semibold flex items-center gap-2 hover:bg-gray-50 transition-colors"
+          >
+            <RefreshCw size={16} className="animate-spin" /> {t('common.cancel')}
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={disabled || !instruction.trim()}
+            className="px-4 rounded-xl bg-emerald-500 hover:bg-emerald-600 text-white font-semibold flex items-center gap-2 transition-all active:scale-95 disabled:opacity-50"
+            aria-label={t('refine.apply')}
+          >
+            <Send size={16} />
+          </button>
+        )}
+      </form>
+
+      {error && (
+        <p className="flex items-center gap-2 text-red-500 text-sm font-medium">
+          <AlertCircle size={16} /> {error}
+        </p>
+      )}
+
+      {current.parentId && (
+        <p className="text-xs text-gray-400">
+          {appliesBefore}<span className="font-semibold text-gray-600">v{numberOf(current)}</span>{appliesAfter}
+        </p>
+      )}
+
+      <ol className="space-y-1">
+        {ordered.map((version) => {
+          const depth = depthOf(version);
+          const isCurrent = version.id === current.id;
+          return (
+            <li
+              key={version.id}
+              className={cn(
+                "flex items-center gap-3 p-1.5 rounded-xl transition-colors",
+                isCurrent ? "bg-emerald-50" : "hover:bg-gray-50"
+              )}
+              style={{ paddingLeft: `${0.375 + depth * 1}rem` }}
+            >
+              {depth > 0 && <GitBranch size={12} className="text-gray-300 shrink-0" />}
+              <button
+                onClick={() => select(version.id)}
+                className="flex-1 min-w-0 flex items-center gap-3 text-left"
+              >
+                <img src={version.image} alt="" className="w-10 h-10 rounded-lg object-cover bg-gray-100 shrink-0" />
+                <span className="min-w-0">
+                  <span className={cn("block text-xs font-semibold", isCurrent ? "text-emerald-700" : "text-gray-700")}>
+                    v{numberOf(version)}
+                  </span>
+                  <span className="block text-xs text-gray-500 truncate">{version.label}</span>
+                </span>
+              </button>
+              {versions.length > 1 && (
+                <label className="flex items-center gap-1 text-[10px] text-gray-400 cursor-pointer pr-1">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(version.id)}
+                    onChange={() => toggleCompare(version.id)}
+                    className="accent-emerald-500"
+                  />
+                  {t('refine.compare')}
+                </label>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {compared.length === 2 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+              <Columns2 size={14} /> {t('refine.versus', { before: `v${numberOf(compared[0])}`, after: `v${numberOf(compared[1])}` })}
+            </span>
+            <button
+              onClick={() => setCompareIds([])}
+              className="text-xs font-medium text-gray-500 hover:text-black transition-colors flex items-center gap-1"
+            >
+              <X size={12} /> {t('refine.clear')}
+            </button>
+          </div>
+          <ComparisonViewer
+            before={compared[0].image}
+            after={compared[1].image}
+            beforeLabel={`v${numberOf(compared[0])}`}
+            afterLabel={`v${numberOf(compared[1])}`}
+            className="aspect-square"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { SlidersHorizontal, Plus, X, RotateCcw } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+import { paletteName } from '../i18n/describe';
+import {
+  DEFAULT_STYLE_PARAMETERS,
+  MAX_AVOID_LENGTH,
+  MAX_PALETTE_COLORS,
+  MAX_STRENGTH,
+  MIN_STRENGTH,
+  CUSTOM_PALETTE_ID,
+  PALETTE_PRESETS,
+  describeStrength,
+  type StyleParameters,
+} from '../shared/parameters';
+
+interface StyleControlsProps {
+  value: StyleParameters;
+  onChange: (value: StyleParameters) => void;
+  disabled?: boolean;
+}
+
+function Swatches({ colors }: { colors: string[] }) {
+  return (
+    <span className="flex -space-x-1">
+      {colors.map((color) => (
+        <span key={color} className="w-3.5 h-3.5 rounded-full border border-white" style={{ backgroundColor: color }} />
+      ))}
+    </span>
+  );
+}
+
+export default function StyleControls({ value, onChange, disabled }: StyleControlsProps) {
+  const { t } = useI18n();
+  const update = (changes: Partial<StyleParameters>) => onChange({ ...value, ...changes });
+  const customColors = value.palette?.id === CUSTOM_PALETTE_ID ? value.palette.colors : null;
+
+  const setCustomColors = (colors: string[]) => {
+    update({ palette: colors.length ? { id: CUSTOM_PALETTE_ID, name: 'Custom', colors } : null });
+  };
+
+  return (
+    <fieldset disabled={disabled} className="space-y-5 disabled:opacity-60">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+          <SlidersHorizontal size={14} aria-hidden /> {t('controls.heading')}
+        </span>
+        <button
+          onClick={() => onChange(DEFAULT_STYLE_PARAMETERS)}
+          className="text-xs font-medium text-gray-400 hover:text-black transition-colors flex items-center gap-1"
+        >
+          <RotateCcw size={12} aria-hidden /> {t('controls.reset')}
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="style-strength" className="text-sm font-semibold text-gray-700 flex items-center justify-between">
+          <span>{t('controls.strength')}</span>
+          <span className="text-xs font-medium text-emerald-600 capitalize">{t(`controls.strength.${describeStrength(value.strength)}`)}</span>
+        </label>
+        <input
+          id="style-strength"
+          type="range"
+          min={MIN_STRENGTH}
+          max={MAX_STRENGTH}
+          step={10}
+          value={value.strength}
+          onChange={(e) => update({ strength: Number(e.target.value) })}
+          aria-valuetext={t(`controls.strength.${describeStrength(value.strength)}`)}
+          className="w-full accent-emerald-500"
+        />
+        <div className="flex justify-between text-xs text-gray-500" aria-hidden>
+          <span>{t('controls.strengthMin')}</span>
+          <span>{t('controls.strengthMax')}</span>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <span id="style-palette" className="block text-sm font-semibold text-gray-700">{t('controls.palette')}</span>
+        <div role="group" aria-labelledby="style-palette" className="flex flex-wrap gap-2">
+          <button
+            onClick={() => update({ palette: null })}
+            aria-pressed={!value.palette}
+            className={cn(
+              "px-2.5 py-1 rounded-lg border text-xs font-medium transition-all",
+              !value.palette ? "border-emerald-500 bg-emerald-50 text-emerald-700" : "border-gray-200 text-gray-500 hover:border-emerald-300"
+            )}
+          >
+            {t('controls.paletteDefault')}
+          </button>
+          {PALETTE_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => update({ palette: preset })}
+              aria-pressed={value.palette?.id === preset.id}
+              className={cn(
+                "px-2.5 py-1 rounded-lg border text-xs font-medium flex items-center gap-1.5 transition-all",
+                value.palette?.id === preset.id ? "border-emerald-500 bg-emerald-50 text-emerald-700" : "border-gray-200 text-gray-500 hover:border-emerald-300"
+              )}
+            >
+              <Swatches colors={preset.colors} /> {paletteName(preset, t)}
+            </button>
+          ))}
+          <button
+            onClick={() => setCustomColors(customColors ?? ['#1a936f'])}
+            aria-pressed={!!customColors}
+            className={cn(
+              "px-2.5 py-1 rounded-lg border text-xs font-medium transition-all",
+              customColors ? "border-emerald-500 bg-emerald-50 text-emerald-700" : "border-gray-200 text-gray-500 hover:border-emerald-300"
+            )}
+          >
+            {t('controls.paletteCustom')}
+          </button>
+        </div>
+        {customColors && (
+          <div className="flex items-center gap-2 pt-1">
+            {customColors.map((color, index) => (
+              <div key={index} className="relative group">
+                <input
+                  type="color"
+                  value={color}
+                  onChange={(e) => setCustomColors(customColors.map((c, i) => (i === index ? e.target.value : c)))}
+                  className="w-8 h-8 rounded-lg border border-black/10 cursor-pointer bg-transparent"
+                  aria-label={t('controls.paletteColor', { index: index + 1 })}
+                />
+                <button
+                  onClick={() => setCustomColors(customColors.filter((_, i) => i !== index))}
+                  className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-black text-white flex opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 focus-visible:opacity-100 items-center justify-center"
+                  aria-label={t('controls.removeColor', { index: index + 1 })}
+                >
+                  <X size={10} />
+                </button>
+              </div>
+            ))}
+            {customColors.length < MAX_PALETTE_COLORS && (
+              <button
+                onClick={() => setCustomColors([...customColors, '#f4a259'])}
+                className="w-8 h-8 rounded-lg border border-dashed border-gray-300 text-gray-400 hover:text-emerald-500 hover:border-emerald-400 flex items-center justify-center"
+                aria-label={t('controls.addColor')}
+              >
+                <Plus size={14} />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center justify-between text-sm font-semibold text-gray-700 cursor-pointer">
+          {t('controls.preserveFaces')}
+          <input
+            type="checkbox"
+            checked={value.preserveFaces}
+            onChange={(e) => update({ preserveFaces: e.target.checked })}
+            className="w-4 h-4 accent-emerald-500"
+          />
+        </label>
+        <label className="flex items-center justify-between text-sm font-semibold text-gray-700 cursor-pointer">
+          {t('controls.keepBackground')}
+          <input
+            type="checkbox"
+            checked={value.keepBackground}
+            onChange={(e) => update({ keepBackground: e.target.checked })}
+            className="w-4 h-4 accent-emerald-500"
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="style-avoid" className="block text-sm font-semibold text-gray-700">{t('controls.avoid')}</label>
+        <input
+          id="style-avoid"
+          value={value.avoid}
+          onChange={(e) => update({ avoid: e.target.value })}
+          maxLength={MAX_AVOID_LENGTH}
+          placeholder={t('controls.avoidPlaceholder')}
+          className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-all text-sm"
+        />
+      </div>
+    </fieldset>
+  );
+}
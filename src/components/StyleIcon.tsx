@@ -0,0 +1,7 @@
+import type { LucideProps } from 'lucide-react';
+import { styleIcon } from '../lib/styles';
+
+export default function StyleIcon({ name, ...props }: LucideProps & { name: string | undefined }) {
+  const Icon = styleIcon(name);
+  return <Icon {...props} />;
+}
@@ -0,0 +1,340 @@
+import { useState, useRef } from 'react';
+import { Library, Plus, Pencil, Trash2, Copy, FileUp, FileDown, AlertCircle, Save, X, Lock } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { STYLE_ICONS } from '../lib/styles';
+import { downloadBlob } from '../lib/files';
+import { useI18n } from '../hooks/useI18n';
+import { useStyles } from '../hooks/useStyles';
+import { StyleConflictError } from '../services/styleService';
+import {
+  PROMPT_VARIABLES,
+  STYLE_ICON_NAMES,
+  createStylePack,
+  renderPromptTemplate,
+  type ArtisticStyle,
+  type ArtisticStyleInput,
+  type StyleId,
+} from '../shared/styles';
+import StyleIcon from './StyleIcon';
+import HighlightedText from './HighlightedText';
+
+const EMPTY_STYLE: ArtisticStyleInput = {
+  label: '',
+  icon: 'brush',
+  description: '',
+  promptTemplate: 'Transform {subject} into ',
+};
+
+export default function StyleLibrary() {
+  const { styles, saveStyle, deleteStyle, importPack } = useStyles();
+  const { t, styleLabel, styleDescription } = useI18n();
+  const [draft, setDraft] = useState<ArtisticStyleInput | null>(null);
+  const [editingId, setEditingId] = useState<StyleId | undefined>();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const customStyles = styles.filter((style) => !style.builtIn);
+
+  const startEditing = (style: ArtisticStyle | null, duplicate = false) => {
+    setError(null);
+    setNotice(null);
+    if (!style) {
+      setDraft(EMPTY_STYLE);
+      setEditingId(undefined);
+      return;
+    }
+    const { icon, promptTemplate } = style;
+    const label = styleLabel(style);
+    setDraft({ label: duplicate ? t('library.copyName', { name: label }) : label, icon, description: styleDescription(style), promptTemplate });
+    setEditingId(duplicate ? undefined : style.id);
+  };
+
+  const insertVariable = (variable: string) => {
+    if (!draft) return;
+    const textarea = promptRef.current;
+    const token = `{${variable}}`;
+    const start = textarea?.selectionStart ?? draft.promptTemplate.length;
+    const end = textarea?.selectionEnd ?? start;
+    setDraft({ ...draft, promptTemplate: draft.promptTemplate.slice(0, start) + token + draft.promptTemplate.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveStyle(draft, editingId);
+      setNotice(t('library.saved', { name: saved.label }));
+      setDraft(null);
+      setEditingId(undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (style: ArtisticStyle) => {
+    if (!window.confirm(t('library.confirmDelete', { name: style.label }))) return;
+    setError(null);
+    try {
+      await deleteStyle(style.id);
+      if (editingId === style.id) {
+        setDraft(null);
+        setEditingId(undefined);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleExport = () => {
+    const pack = createStylePack(styles);
+    downloadBlob(new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' }), 'style-pack.json');
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setNotice(null);
+    try {
+      const pack = JSON.parse(await file.text());
+      let result;
+      try {
+        result = await importPack(pack);
+      } catch (err) {
+        if (!(err instanceof StyleConflictError)) throw err;
+        const names = err.conflicts.map((style) => `"${styleLabel(style)}"`).join(', ');
+        if (!window.confirm(t(err.conflicts.length === 1 ? 'library.confirmReplaceOne' : 'library.confirmReplace', { names }))) return;
+        result = await importPack(pack, true);
+      }
+      const { styles: imported, replaced } = result;
+      const importedText = t(imported.length === 1 ? 'library.importedOne' : 'library.imported', { count: imported.length });
+      setNotice(replaced.length > 0
+        ? `${importedText} ${t('library.replaced', { names: replaced.map((style) => `"${styleLabel(style)}"`).join(', ') })}`
+        : importedText);
+    } catch (err) {
+      setError(err instanceof SyntaxError ? t('recipeMenu.invalidJson') : err instanceof Error ? err.message : String(err));
+    } finally {
+      if (importRef.current) importRef.current.value = '';
+    }
+  };
+
+  return (
+    <motion.div
+      key="styles"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">
+            <HighlightedText text={t('library.heading')} highlight={t('library.headingHighlight')} />
+          </h2>
+          <p className="text-gray-500 mt-1">{t('library.intro')}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            ref={importRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+          <button
+            onClick={() => importRef.current?.click()}
+            className="px-4 py-2 rounded-xl border border-black/10 bg-white text-sm font-semibold flex items-center gap-2 hover:bg-gray-50 transition-colors"
+          >
+            <FileUp size={16} /> {t('library.import')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={customStyles.length === 0}
+            className="px-4 py-2 rounded-xl border border-black/10 bg-white text-sm font-semibold flex items-center gap-2 hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <FileDown size={16} /> {t('library.export')}
+          </button>
+          <button
+            onClick={() => startEditing(null)}
+            className="px-4 py-2 rounded-xl bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-semibold flex items-center gap-2 shadow-lg shadow-emerald-500/20 transition-all active:scale-95"
+          >
+            <Plus size={16} /> {t('library.new')}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-500 text-sm font-medium">
+          <AlertCircle size={16} /> {error}
+        </div>
+      )}
+      {notice && !error && (
+        <p className="text-sm font-medium text-emerald-600">{notice}</p>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+        <div className={cn("space-y-3", draft ? "lg:col-span-5" : "lg:col-span-12")}>
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+            <Library size={14} /> {t('library.all')}
+          </span>
+          <ul className={cn("grid gap-3", draft ? "grid-cols-1" : "grid-cols-1 md:grid-cols-2 lg:grid-cols-3")}>
+            {styles.map((style) => (
+              <li
+                key={style.id}
+                className={cn(
+                  "p-4 rounded-2xl border bg-white flex items-start gap-3",
+                  editingId === style.id ? "border-emerald-500 ring-1 ring-emerald-500" : "border-black/5"
+                )}
+              >
+                <div className="w-10 h-10 shrink-0 rounded-xl bg-emerald-50 text-emerald-500 flex items-center justify-center">
+                  <StyleIcon name={style.icon} size={20} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-sm flex items-center gap-1.5">
+                    {styleLabel(style)}
+                    {style.builtIn && <Lock size={10} className="text-gray-400" aria-label={t('library.builtIn')} />}
+                  </p>
+                  <p className="text-xs text-gray-400 leading-tight">{styleDescription(style)}</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => startEditing(style, true)}
+                    className="p-2 rounded-lg text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 transition-colors"
+                    aria-label={t('library.duplicate', { name: styleLabel(style) })}
+                  >
+                    <Copy size={14} />
+                  </button>
+                  {!style.builtIn && (
+                    <>
+                      <button
+                        onClick={() => startEditing(style)}
+                        className="p-2 rounded-lg text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 transition-colors"
+                        aria-label={t('library.edit', { name: style.label })}
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(style)}
+                        className="p-2 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                        aria-label={t('library.delete', { name: style.label })}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {draft && (
+          <div className="lg:col-span-7 space-y-5 p-6 rounded-3xl bg-white border border-black/5">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold uppercase tracking-widest text-gray-400">
+                {editingId ? t('library.editHeading') : t('library.new')}
+              </span>
+              <button
+                onClick={() => { setDraft(null); setEditingId(undefined); }}
+                className="text-sm font-medium text-gray-500 hover:text-black transition-colors flex items-center gap-1"
+              >
+                <X size={14} /> {t('common.cancel')}
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="style-label" className="block text-sm font-semibold text-gray-700">{t('library.name')}</label>
+              <input
+                id="style-label"
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                placeholder={t('library.namePlaceholder')}
+                maxLength={60}
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-all text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <span className="block text-sm font-semibold text-gray-700">{t('library.icon')}</span>
+              <div className="grid grid-cols-9 gap-2">
+                {STYLE_ICON_NAMES.map((name) => {
+                  const Icon = STYLE_ICONS[name];
+                  return (
+                    <button
+                      key={name}
+                      onClick={() => setDraft({ ...draft, icon: name })}
+                      className={cn(
+                        "aspect-square rounded-lg flex items-center justify-center transition-colors",
+                        draft.icon === name ? "bg-emerald-500 text-white" : "bg-gray-100 text-gray-400 hover:text-emerald-500"
+                      )}
+                      aria-label={t(`icon.${name}`)}
+                    >
+                      <Icon size={16} />
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="style-description" className="block text-sm font-semibold text-gray-700">{t('library.description')}</label>
+              <input
+                id="style-description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder={t('library.descriptionPlaceholder')}
+                maxLength={140}
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-all text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label htmlFor="style-prompt" className="block text-sm font-semibold text-gray-700">{t('library.prompt')}</label>
+                <div className="flex items-center gap-1">
+                  {PROMPT_VARIABLES.map((variable) => (
+                    <button
+                      key={variable}
+                      onClick={() => insertVariable(variable)}
+                      className="px-2 py-0.5 rounded-md bg-gray-100 text-gray-500 text-xs font-mono hover:bg-emerald-50 hover:text-emerald-600 transition-colors"
+                    >
+                      {`{${variable}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <textarea
+                id="style-prompt"
+                ref={promptRef}
+                value={draft.promptTemplate}
+                onChange={(e) => setDraft({ ...draft, promptTemplate: e.target.value })}
+                className="w-full p-4 rounded-2xl border border-gray-200 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-all resize-none h-36 text-sm"
+              />
+              <p className="text-xs text-gray-400 leading-relaxed">
+                <span className="font-semibold">{t('library.preview')}</span> {renderPromptTemplate(draft.promptTemplate)}
+              </p>
+            </div>
+
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !draft.label.trim() || !draft.promptTemplate.trim()}
+              className="w-full bg-black text-white px-6 py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-800 transition-colors active:scale-95 disabled:opacity-50"
+            >
+              <Save size={18} /> {editingId ? t('library.save') : t('library.create')}
+            </button>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
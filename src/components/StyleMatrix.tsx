@@ -0,0 +1,212 @@
+import { useState, useEffect, useRef } from 'react';
+import { Grid3x3, RefreshCw, AlertCircle, Download, X, Play, Check, Image as ImageIcon } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { maskableImage } from '../lib/mask';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { renderContactSheet } from '../lib/contactSheet';
+import { downloadBlob } from '../lib/files';
+import { useI18n } from '../hooks/useI18n';
+import { useStyles } from '../hooks/useStyles';
+import { useModels } from '../hooks/useModels';
+import { parseDataUrl } from '../shared/dataUrl';
+import { BUILT_IN_STYLES } from '../shared/styles';
+import { transformToArtisticStyle, type StyleId, type StyleParameters } from '../services/geminiService';
+import { describeError, describeGenerationError } from '../i18n/describe';
+import type { GenerationRecord } from '../shared/history';
+import StyleIcon from './StyleIcon';
+
+interface MatrixTile {
+  status: 'processing' | 'done' | 'error';
+  image?: string;
+  generation?: GenerationRecord;
+  error?: string;
+}
+
+interface StyleMatrixProps {
+  originalImage: string;
+  parameters: StyleParameters;
+  /** Region mask from the editor; every cell keeps the pixels outside it. */
+  mask: string | null;
+  onSelect: (style: StyleId, image: string, generation: GenerationRecord | null) => void;
+  onClose: () => void;
+}
+
+const MATRIX_CONCURRENCY = 3;
+
+export default function StyleMatrix({ originalImage, parameters, mask, onSelect, onClose }: StyleMatrixProps) {
+  const { styles } = useStyles();
+  const { selectedModel } = useModels();
+  const { t, styleLabel } = useI18n();
+  const [chosenStyles, setChosenStyles] = useState<StyleId[]>(BUILT_IN_STYLES.map((style) => style.id));
+  const [tiles, setTiles] = useState<Record<StyleId, MatrixTile>>({});
+  const [isRendering, setIsRendering] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  // Failures that stop the whole matrix, such as preparing a masked photo or exporting the sheet.
+  const [error, setError] = useState<string | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const toggleStyle = (style: StyleId) => {
+    setChosenStyles((current) =>
+      current.includes(style) ? current.filter((s) => s !== style) : styles.map((s) => s.id).filter((s) => s === style || current.includes(s)),
+    );
+  };
+
+  const renderMatrix = async () => {
+    controller.current?.abort();
+    const abort = new AbortController();
+    controller.current = abort;
+
+    setIsRendering(true);
+    setError(null);
+    try {
+      const { mimeType, data } = parseDataUrl(mask ? await maskableImage(originalImage) : originalImage);
+      setTiles(Object.fromEntries(chosenStyles.map((style) => [style, { status: 'processing' }])));
+
+      await mapWithConcurrency(chosenStyles, MATRIX_CONCURRENCY, async (style) => {
+        try {
+          const { image, generation } = await transformToArtisticStyle(data, mimeType, style, { parameters, mask, model: selectedModel ?? undefined, signal: abort.signal });
+          setTiles((current) => ({ ...current, [style]: { status: 'done', image, generation } }));
+        } catch (err) {
+          if (abort.signal.aborted) return;
+          setTiles((current) => ({
+            ...current,
+            [style]: { status: 'error', error: describeGenerationError(err, t) },
+          }));
+        }
+      });
+    } catch (err) {
+      if (!abort.signal.aborted) setError(t('matrix.renderFailed', { reason: describeError(err, t) }));
+    } finally {
+      // A newer render has taken over and will clear the flag itself.
+      if (!abort.signal.aborted) setIsRendering(false);
+    }
+  };
+
+  const exportContactSheet = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const rendered = styles.filter((style) => tiles[style.id]?.image);
+      const blob = await renderContactSheet([
+        { label: t('editor.original'), src: originalImage },
+        ...rendered.map((style) => ({ label: styleLabel(style), src: tiles[style.id].image! })),
+      ]);
+      downloadBlob(blob, 'style-matrix.png');
+    } catch (err) {
+      setError(t('matrix.exportFailed', { reason: describeError(err, t) }));
+      console.error(err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderedStyles = styles.filter((style) => tiles[style.id]);
+  const hasResults = renderedStyles.some((style) => tiles[style.id]?.image);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+          <Grid3x3 size={14} className="text-emerald-500" /> {t('matrix.heading')}
+        </span>
+        <button
+          onClick={onClose}
+          className="text-sm font-medium text-gray-500 hover:text-black transition-colors flex items-center gap-1"
+        >
+          <X size={14} /> {t('matrix.close')}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {styles.map((style) => {
+          const isChosen = chosenStyles.includes(style.id);
+          return (
+            <button
+              key={style.id}
+              onClick={() => toggleStyle(style.id)}
+              disabled={isRendering}
+              className={cn(
+                "px-3 py-1.5 rounded-lg border text-xs font-semibold flex items-center gap-1.5 transition-all disabled:opacity-60",
+                isChosen
+                  ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+                  : "border-gray-200 text-gray-500 hover:border-emerald-300"
+              )}
+            >
+              {isChosen ? <Check size={12} /> : <StyleIcon name={style.icon} size={12} />} {styleLabel(style)}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        <div className="rounded-2xl overflow-hidden bg-gray-100 border border-black/5 relative aspect-square">
+          <img src={originalImage} alt={t('editor.original')} className="w-full h-full object-contain bg-white" />
+          <span className="absolute top-2 left-2 px-2 py-0.5 rounded-md bg-black/60 text-white text-[10px] font-semibold flex items-center gap-1">
+            <ImageIcon size={10} /> {t('editor.original')}
+          </span>
+        </div>
+        {renderedStyles.map((style) => {
+          const tile = tiles[style.id];
+          return (
+            <button
+              key={style.id}
+              onClick={() => tile.image && onSelect(style.id, tile.image, tile.generation ?? null)}
+              disabled={!tile.image}
+              className="rounded-2xl overflow-hidden bg-gray-100 border border-black/5 relative aspect-square flex items-center justify-center group enabled:hover:ring-2 enabled:hover:ring-emerald-500 transition-all"
+            >
+              {tile.status === 'done' && tile.image && (
+                <img src={tile.image} alt={t('matrix.resultAlt', { style: styleLabel(style) })} className="w-full h-full object-contain bg-white" />
+              )}
+              {tile.status === 'processing' && <RefreshCw className="animate-spin text-emerald-500" size={24} />}
+              {tile.status === 'error' && (
+                <div className="flex flex-col items-center gap-2 text-red-500 p-3 text-center">
+                  <AlertCircle size={20} />
+                  <p className="text-[10px] font-medium line-clamp-3">{tile.error}</p>
+                </div>
+              )}
+              <span className="absolute top-2 left-2 px-2 py-0.5 rounded-md bg-black/60 text-white text-[10px] font-semibold flex items-center gap-1">
+                <StyleIcon name={style.icon} size={10} /> {styleLabel(style)}
+              </span>
+              {tile.image && (
+                <span className="absolute bottom-2 inset-x-2 py-1 rounded-md bg-emerald-500 text-white text-[10px] font-semibold opacity-0 group-hover:opacity-100 transition-opacity">
+                  {t('matrix.use')}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-2 text-red-500 text-sm font-medium">
+          <AlertCircle size={16} className="shrink-0" /> {error}
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={renderMatrix}
+          disabled={isRendering || chosenStyles.length === 0}
+          className="flex-1 bg-emerald-500 hover:bg-emerald-600 text-white px-6 py-4 rounded-xl font-semibold shadow-lg shadow-emerald-500/20 flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-50 disabled:shadow-none"
+        >
+          {isRendering ? <RefreshCw size={18} className="animate-spin" /> : <Play size={18} />}
+          {t(chosenStyles.length === 1 ? 'matrix.renderOne' : 'matrix.render', { count: chosenStyles.length })}
+        </button>
+        <button
+          onClick={exportContactSheet}
+          disabled={!hasResults || isExporting}
+          className="flex-1 bg-black text-white px-6 py-4 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-gray-800 transition-colors active:scale-95 disabled:opacity-50"
+        >
+          <Download size={18} /> {t('matrix.export')}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
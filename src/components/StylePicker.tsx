@@ -0,0 +1,111 @@
+import { useId, useRef, type KeyboardEvent } from 'react';
+import { cn } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+import type { ArtisticStyle, StyleId } from '../shared/styles';
+import StyleIcon from './StyleIcon';
+
+interface StylePickerProps {
+  styles: ArtisticStyle[];
+  selected: StyleId;
+  onSelect: (style: StyleId) => void;
+  /** Runs on Enter, e.g. to generate with the picked style. */
+  onApply?: () => void;
+  /** `large` tiles show the description; `compact` ones only the label. */
+  variant: 'large' | 'compact';
+}
+
+/**
+ * A radio group of style tiles. Arrow keys move through the grid and pick
+ * the style they land on, like native radio buttons; Enter applies it.
+ */
+export default function StylePicker({ styles, selected, onSelect, onApply, variant }: StylePickerProps) {
+  const { t, styleLabel, styleDescription } = useI18n();
+  const id = useId();
+  const group = useRef<HTMLDivElement>(null);
+  const selectedIndex = Math.max(0, styles.findIndex((style) => style.id === selected));
+
+  // The grid reflows at breakpoints, so count the tiles on the first row.
+  const columns = () => {
+    const tiles = Array.from(group.current?.children ?? []) as HTMLElement[];
+    return tiles.filter((tile) => tile.offsetTop === tiles[0]?.offsetTop).length || 1;
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>, index: number) => {
+    let next: number;
+    switch (e.key) {
+      case 'ArrowRight': next = index + 1; break;
+      case 'ArrowLeft': next = index - 1; break;
+      case 'ArrowDown': next = index + columns(); break;
+      case 'ArrowUp': next = index - columns(); break;
+      case 'Home': next = 0; break;
+      case 'End': next = styles.length - 1; break;
+      case 'Enter':
+        e.preventDefault();
+        onSelect(styles[index].id);
+        onApply?.();
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    next = (next + styles.length) % styles.length;
+    onSelect(styles[next].id);
+    (group.current?.children[next] as HTMLElement | undefined)?.focus();
+  };
+
+  return (
+    <>
+      <div
+        ref={group}
+        role="radiogroup"
+        aria-label={t('picker.label')}
+        aria-describedby={onApply ? `${id}-hint` : undefined}
+        className={variant === 'large' ? "grid grid-cols-2 sm:grid-cols-3 gap-4" : "grid grid-cols-2 gap-3"}
+      >
+        {styles.map((style, index) => {
+          const isSelected = style.id === selected;
+          return (
+            <button
+              key={style.id}
+              role="radio"
+              aria-checked={isSelected}
+              aria-labelledby={`${id}-${style.id}-label`}
+              aria-describedby={`${id}-${style.id}`}
+              tabIndex={index === selectedIndex ? 0 : -1}
+              onClick={() => onSelect(style.id)}
+              onKeyDown={(e) => handleKeyDown(e, index)}
+              title={variant === 'compact' ? styleDescription(style) : undefined}
+              className={cn(
+                "border transition-all text-left flex flex-col group outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 focus-visible:ring-offset-2",
+                variant === 'large' ? "p-4 rounded-2xl gap-2" : "p-3 rounded-xl gap-1",
+                isSelected
+                  ? "border-emerald-500 bg-emerald-50 ring-1 ring-emerald-500"
+                  : "border-gray-200 hover:border-emerald-300 hover:bg-gray-50"
+              )}
+            >
+              <div className={cn(
+                "flex items-center justify-center transition-colors",
+                variant === 'large' ? "w-10 h-10 rounded-xl" : "w-8 h-8 rounded-lg",
+                isSelected ? "bg-emerald-500 text-white" : "bg-gray-100 text-gray-500 group-hover:text-emerald-500"
+              )}>
+                <StyleIcon name={style.icon} size={variant === 'large' ? 20 : 16} aria-hidden />
+              </div>
+              <div>
+                <p id={`${id}-${style.id}-label`} className={cn("font-semibold", variant === 'large' ? "text-sm" : "text-xs")}>
+                  {styleLabel(style)}
+                </p>
+                <p
+                  id={`${id}-${style.id}`}
+                  className={variant === 'large' ? "text-xs text-gray-500 leading-snug" : "sr-only"}
+                >
+                  {styleDescription(style)}
+                </p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+      {onApply && <p id={`${id}-hint`} className="sr-only">{t('picker.hint')}</p>}
+    </>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Gauge, Trash2, Server, Monitor, AlertCircle } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+import { formatUsd } from '../shared/pricing';
+import type { UsageSummary } from '../shared/usage';
+import type { UsageState } from '../hooks/useUsage';
+
+interface UsagePanelProps {
+  usage: UsageState;
+}
+
+function formatTokens(tokens: number) {
+  return tokens >= 10_000 ? `${(tokens / 1000).toFixed(0)}k` : tokens.toLocaleString();
+}
+
+function formatLimit(used: number, limit: number | null) {
+  return limit === null ? `${used}` : `${used} / ${limit}`;
+}
+
+function SummaryGrid({ summary }: { summary: UsageSummary }) {
+  const { t } = useI18n();
+  const stats = [
+    [t('usage.requests'), summary.failures ? t('usage.requestsFailed', { requests: summary.requests, failures: summary.failures }) : `${summary.requests}`],
+    [t('usage.tokens'), `${formatTokens(summary.inputTokens)} / ${formatTokens(summary.outputTokens)}`],
+    [t('usage.latency'), summary.requests ? `${(summary.averageLatencyMs / 1000).toFixed(1)}s` : '—'],
+    [t('usage.cost'), formatUsd(summary.costUsd)],
+  ];
+  return (
+    <dl className="grid grid-cols-2 gap-2">
+      {stats.map(([label, value]) => (
+        <div key={label} className="p-2 rounded-lg bg-gray-50">
+          <dt className="text-[10px] uppercase tracking-wider text-gray-400">{label}</dt>
+          <dd className="text-sm font-semibold text-gray-900">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+/** Header button with today's estimated spend; opens the running usage and limits. */
+export default function UsagePanel({ usage }: UsagePanelProps) {
+  const { locale, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const { today, allTime, limits, server, quota } = usage;
+
+  const setDailyLimit = (value: string) => {
+    const limit = Number(value);
+    usage.setLimits({ ...limits, daily: value === '' || !Number.isInteger(limit) || limit < 0 ? null : limit });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className={cn(
+          "px-3 py-1.5 rounded-lg border text-sm font-medium flex items-center gap-1.5 transition-colors",
+          quota.reached
+            ? "border-amber-300 bg-amber-50 text-amber-700"
+            : "border-black/10 text-gray-500 hover:text-gray-700"
+        )}
+      >
+        <Gauge size={14} /> {formatUsd(today.costUsd)}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-80 z-20 bg-white rounded-2xl border border-black/5 shadow-xl p-4 space-y-5 text-left">
+            {quota.reached && (
+              <p className="flex items-start gap-2 text-amber-700 text-xs font-medium">
+                <AlertCircle size={14} className="shrink-0 mt-px" />
+                {t('usage.quotaReached', { time: new Date(quota.resetsAt).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }) })}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+                <Monitor size={14} /> {t('usage.browserToday')}
+              </span>
+              <SummaryGrid summary={today} />
+              <p className="text-xs text-gray-400">
+                {t('usage.allTime', { requests: allTime.requests, cost: formatUsd(allTime.costUsd) })}
+              </p>
+            </div>
+
+            {server && (
+              <div className="space-y-2">
+                <span className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+                  <Server size={14} /> {t('usage.serverToday')}
+                </span>
+                <div className="text-xs text-gray-600 space-y-1">
+                  <p className="flex justify-between">
+                    <span>{t('usage.you')}</span>
+                    <span>{t('usage.serverUsage', { requests: formatLimit(server.quota.used.user, server.quota.limits.perUser), cost: formatUsd(server.today.user.costUsd) })}</span>
+                  </p>
+                  <p className="flex justify-between">
+                    <span>{t('usage.everyone')}</span>
+                    <span>{t('usage.serverUsage', { requests: formatLimit(server.quota.used.total, server.quota.limits.daily), cost: formatUsd(server.today.all.costUsd) })}</span>
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label htmlFor="usage-daily-limit" className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center justify-between">
+                <span>{t('usage.dailyLimit')}</span>
+                <span className="text-emerald-600">{formatLimit(today.requests, limits.daily)}</span>
+              </label>
+              <input
+                id="usage-daily-limit"
+                type="number"
+                min={0}
+                placeholder={t('usage.noLimit')}
+                value={limits.daily ?? ''}
+                onChange={(e) => setDailyLimit(e.target.value)}
+                className="w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm outline-none focus:border-emerald-500"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-gray-400">{t('usage.estimates')}</p>
+              <button
+                onClick={usage.clear}
+                className="text-xs font-medium text-gray-400 hover:text-red-500 flex items-center gap-1 transition-colors"
+              >
+                <Trash2 size={12} /> {t('usage.clear')}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { detectLocale, hasMessage, isLocale, translate, type Locale, type Translate } from '../i18n';
+import type { ModelInfo } from '../shared/models';
+import type { ArtisticStyle } from '../shared/styles';
+
+const LOCALE_KEY = 'artistic-studio.locale';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  /** Built-in styles are translated from the catalog; custom styles keep the text their author wrote. */
+  styleLabel: (style: Pick<ArtisticStyle, 'id' | 'label' | 'builtIn'>) => string;
+  styleDescription: (style: Pick<ArtisticStyle, 'id' | 'description' | 'builtIn'>) => string;
+  /** Models the catalog knows are translated; others, such as extra Gemini models, keep the server's text. */
+  modelLabel: (model: Pick<ModelInfo, 'id' | 'label'>) => string;
+  modelDescription: (model: Pick<ModelInfo, 'id' | 'provider' | 'description'>) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+function initialLocale(): Locale {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  return isLocale(stored) ? stored : detectLocale(navigator.languages);
+}
+
+/** Picks the language from the saved choice or the browser's preferences and shares it with every view. */
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => {
+    const catalogText = (key: string, fallback: string) => (hasMessage(key) ? translate(locale, key) : fallback);
+    return {
+      locale,
+      setLocale: (next) => {
+        setLocaleState(next);
+        localStorage.setItem(LOCALE_KEY, next);
+      },
+      t: (key, values) => translate(locale, key, values),
+      styleLabel: (style) => (style.builtIn ? catalogText(`style.${style.id}.label`, style.label) : style.label),
+      styleDescription: (style) => (style.builtIn ? catalogText(`style.${style.id}.description`, style.description) : style.description),
+      modelLabel: (model) => catalogText(`model.${model.id}.label`, model.label),
+      modelDescription: (model) => catalogText(`model.${model.id}.description`, catalogText(`model.provider.${model.provider}.description`, model.description)),
+    };
+  }, [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside an I18nProvider.');
+  }
+  return context;
+}
@@ -0,0 +1,54 @@
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { ModelInfo } from '../shared/models';
+import * as modelService from '../services/modelService';
+
+const SELECTED_MODEL_KEY = 'artistic-studio.model';
+
+interface ModelsContextValue {
+  models: ModelInfo[];
+  /** False until the model list has been fetched (or the fetch failed). */
+  isLoaded: boolean;
+  /** The picked model, or null to let the server use its default (e.g. before the list loads). */
+  selectedModel: string | null;
+  setSelectedModel: (id: string) => void;
+}
+
+const ModelsContext = createContext<ModelsContextValue | null>(null);
+
+/** Loads the server's models once; the pick is shared by every view and remembered. */
+export function ModelsProvider({ children }: { children: ReactNode }) {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [selectedModel, setSelected] = useState<string | null>(() => localStorage.getItem(SELECTED_MODEL_KEY));
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    modelService.listModels()
+      .then(({ models, defaultModel }) => {
+        setModels(models);
+        // A remembered model the server no longer offers falls back to its default.
+        setSelected((current) => (current && models.some((model) => model.id === current) ? current : defaultModel));
+      })
+      .catch((err) => console.error("Error loading models:", err))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  const value = useMemo<ModelsContextValue>(() => ({
+    models,
+    isLoaded,
+    selectedModel,
+    setSelectedModel: (id) => {
+      setSelected(id);
+      localStorage.setItem(SELECTED_MODEL_KEY, id);
+    },
+  }), [models, isLoaded, selectedModel]);
+
+  return <ModelsContext.Provider value={value}>{children}</ModelsContext.Provider>;
+}
+
+export function useModels(): ModelsContextValue {
+  const context = useContext(ModelsContext);
+  if (!context) {
+    throw new Error('useModels must be used inside a ModelsProvider.');
+  }
+  return context;
+}
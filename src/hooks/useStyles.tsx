@@ -0,0 +1,66 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { BUILT_IN_STYLES, type ArtisticStyle, type ArtisticStyleInput, type StyleId, type StyleImportResult, type StylePack } from '../shared/styles';
+import * as styleService from '../services/styleService';
+
+interface StylesContextValue {
+  styles: ArtisticStyle[];
+  /** False until custom styles have been fetched (or the fetch failed). */
+  isLoaded: boolean;
+  getStyle: (id: StyleId) => ArtisticStyle | undefined;
+  saveStyle: (input: ArtisticStyleInput, id?: StyleId) => Promise<ArtisticStyle>;
+  deleteStyle: (id: StyleId) => Promise<void>;
+  importPack: (pack: StylePack, replace?: boolean) => Promise<StyleImportResult>;
+}
+
+const StylesContext = createContext<StylesContextValue | null>(null);
+
+/** Loads built-in and custom styles once and shares them with every picker. */
+export function StylesProvider({ children }: { children: ReactNode }) {
+  // Built-ins are known up front, so pickers render before the request lands.
+  const [styles, setStyles] = useState<ArtisticStyle[]>(BUILT_IN_STYLES);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStyles(await styleService.listStyles());
+    } catch (err) {
+      console.error("Error loading styles:", err);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const value = useMemo<StylesContextValue>(() => ({
+    styles,
+    isLoaded,
+    getStyle: (id) => styles.find((style) => style.id === id),
+    saveStyle: async (input, id) => {
+      const style = id ? await styleService.updateStyle(id, input) : await styleService.createStyle(input);
+      await refresh();
+      return style;
+    },
+    deleteStyle: async (id) => {
+      await styleService.deleteStyle(id);
+      await refresh();
+    },
+    importPack: async (pack, replace) => {
+      const imported = await styleService.importStylePack(pack, replace);
+      await refresh();
+      return imported;
+    },
+  }), [styles, isLoaded, refresh]);
+
+  return <StylesContext.Provider value={value}>{children}</StylesContext.Provider>;
+}
+
+export function useStyles(): StylesContextValue {
+  const context = useContext(StylesContext);
+  if (!context) {
+    throw new Error('useStyles must be used inside a StylesProvider.');
+  }
+  return context;
+}
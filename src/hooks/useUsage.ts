@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { summarizeUsage, type QuotaLimits, type QuotaStatus, type UsageSummary } from '../shared/usage';
+import {
+  clearUsage,
+  clientQuotaStatus,
+  getClientLimits,
+  getUsageEvents,
+  setClientLimits,
+  subscribeUsage,
+  todaysUsageEvents,
+} from '../lib/usageMeter';
+import { fetchServerUsage, type ServerUsage } from '../services/usageService';
+
+export interface UsageState {
+  /** This browser's calls today (UTC). */
+  today: UsageSummary;
+  allTime: UsageSummary;
+  limits: QuotaLimits;
+  setLimits: (limits: QuotaLimits) => void;
+  clear: () => void;
+  /** Null until loaded, or when there is no server to ask. */
+  server: ServerUsage | null;
+  /** The first quota that is used up, the browser's or the server's. */
+  quota: QuotaStatus;
+}
+
+/** The local usage meter, kept in sync with the server's totals after every call. */
+export function useUsage(): UsageState {
+  const events = useSyncExternalStore(subscribeUsage, getUsageEvents);
+  const limits = useSyncExternalStore(subscribeUsage, getClientLimits);
+  const [server, setServer] = useState<ServerUsage | null>(null);
+
+  const refreshServer = useCallback(async () => {
+    try {
+      setServer(await fetchServerUsage());
+    } catch (err) {
+      console.error("Error loading usage:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshServer();
+  }, [events, refreshServer]);
+
+  return useMemo(() => {
+    const local = clientQuotaStatus();
+    return {
+      today: summarizeUsage(todaysUsageEvents()),
+      allTime: summarizeUsage(events),
+      limits,
+      setLimits: setClientLimits,
+      clear: clearUsage,
+      server,
+      quota: local.reached || !server ? local : server.quota,
+    };
+  }, [events, limits, server]);
+}
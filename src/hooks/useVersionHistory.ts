@@ -0,0 +1,55 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { GenerationRecord } from '../shared/history';
+
+export interface ImageVersion {
+  id: string;
+  /** The version this one was refined from; null for the first result. */
+  parentId: string | null;
+  image: string;
+  label: string;
+  /** How the server made it, when known; exports record this in the file. */
+  generation: GenerationRecord | null;
+  createdAt: number;
+}
+
+/**
+ * Tracks a result and every refinement made to it as a tree. Refining an
+ * earlier version branches from it instead of discarding later versions.
+ */
+export function useVersionHistory() {
+  const [versions, setVersions] = useState<ImageVersion[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+
+  const add = useCallback((image: string, label: string, parentId: string | null, generation: GenerationRecord | null = null) => {
+    const version: ImageVersion = { id: crypto.randomUUID(), parentId, image, label, generation, createdAt: Date.now() };
+    setVersions((current) => (parentId ? [...current, version] : [version]));
+    setCurrentId(version.id);
+    return version;
+  }, []);
+
+  /** Starts a new timeline from a fresh result, or clears it with null. */
+  const start = useCallback((image: string | null, label = 'Original result', generation: GenerationRecord | null = null) => {
+    if (image) {
+      add(image, label, null, generation);
+    } else {
+      setVersions([]);
+      setCurrentId(null);
+    }
+  }, [add]);
+
+  const refine = useCallback((image: string, instruction: string, parentId: string, generation: GenerationRecord | null = null) => add(image, instruction, parentId, generation), [add]);
+
+  const current = useMemo(() => versions.find((version) => version.id === currentId) ?? null, [versions, currentId]);
+
+  const depthOf = useCallback((version: ImageVersion) => {
+    let depth = 0;
+    for (let parent = version.parentId; parent; depth++) {
+      parent = versions.find((v) => v.id === parent)?.parentId ?? null;
+    }
+    return depth;
+  }, [versions]);
+
+  return { versions, current, select: setCurrentId, start, refine, depthOf };
+}
+
+export type VersionHistory = ReturnType<typeof useVersionHistory>;
@@ -0,0 +1,84 @@
+import { AnimationError, type AnimationErrorCode } from '../lib/animation';
+import { ClipError, type ClipErrorCode } from '../lib/clip';
+import { ExportError, type ExportErrorCode } from '../lib/export';
+import { PreprocessError, type PreprocessErrorCode } from '../lib/preprocess';
+import { GenerationError } from '../shared/errors';
+import { CUSTOM_PALETTE_ID, MAX_STRENGTH, type PaletteChoice, type StyleParameters } from '../shared/parameters';
+import { hasMessage, type MessageKey, type Translate } from '.';
+
+const PREPROCESS_ERRORS: Record<PreprocessErrorCode, MessageKey> = {
+  too_large: 'error.preprocess.tooLarge',
+  heic_unsupported: 'error.preprocess.heicUnsupported',
+  unreadable: 'error.preprocess.unreadable',
+  still_too_large: 'error.preprocess.stillTooLarge',
+};
+
+const EXPORT_ERRORS: Record<ExportErrorCode, MessageKey> = {
+  unsupported_format: 'error.export.unsupportedFormat',
+};
+
+const ANIMATION_ERRORS: Record<AnimationErrorCode, MessageKey> = {
+  webp_unsupported: 'error.animation.webpUnsupported',
+  webm_unsupported: 'error.animation.webmUnsupported',
+  no_frames: 'error.animation.noFrames',
+};
+
+const CLIP_ERRORS: Record<ClipErrorCode, MessageKey> = {
+  undecodable: 'error.clip.undecodable',
+  gif_unsupported: 'error.clip.gifUnsupported',
+  unsupported_type: 'error.clip.unsupportedType',
+};
+
+/** What the user should read, and do, for each kind of failure. */
+export function describeGenerationError(error: unknown, t: Translate): string {
+  if (!(error instanceof GenerationError)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  switch (error.code) {
+    case 'rate_limited':
+      return t('error.rateLimited');
+    case 'safety_blocked':
+      return error.reason
+        ? t('error.safetyBlockedReason', { reason: error.reason.toLowerCase().replace(/_/g, ' ') })
+        : t('error.safetyBlocked');
+    case 'no_image':
+      return error.reason ? t('error.noImageReason', { reason: error.reason }) : t('error.noImage');
+    case 'invalid_input':
+      return error.message;
+    case 'network':
+      return t('error.network');
+    case 'quota_exceeded':
+      return t('error.quotaExceeded', { message: error.message });
+    case 'model_error':
+      return t('error.modelError', { message: error.message });
+    case 'server_error':
+      return t('error.serverError', { message: error.message });
+  }
+}
+
+/** Like `describeGenerationError`, and also translates the browser-side errors from `src/lib`. */
+export function describeError(error: unknown, t: Translate): string {
+  if (error instanceof PreprocessError) return t(PREPROCESS_ERRORS[error.code], error.values);
+  if (error instanceof ExportError) return t(EXPORT_ERRORS[error.code], error.values);
+  if (error instanceof AnimationError) return t(ANIMATION_ERRORS[error.code], error.values);
+  if (error instanceof ClipError) return t(CLIP_ERRORS[error.code], error.values);
+  return describeGenerationError(error, t);
+}
+
+/** Presets and custom palettes are translated; palettes from older records keep their stored name. */
+export function paletteName(palette: PaletteChoice, t: Translate): string {
+  if (palette.id === CUSTOM_PALETTE_ID) return t('controls.paletteCustom');
+  const key = `palette.${palette.id}`;
+  return palette.id && hasMessage(key) ? t(key) : palette.name;
+}
+
+/** A short, human readable summary, e.g. for gallery cards. */
+export function summarizeParameters(parameters: StyleParameters, t: Translate): string[] {
+  const summary: string[] = [];
+  if (parameters.strength < MAX_STRENGTH) summary.push(t('parameters.strength', { strength: parameters.strength }));
+  if (parameters.palette) summary.push(paletteName(parameters.palette, t));
+  if (parameters.preserveFaces) summary.push(t('parameters.facesKept'));
+  if (parameters.keepBackground) summary.push(t('parameters.backgroundKept'));
+  if (parameters.avoid.trim()) summary.push(t('parameters.avoid', { avoid: parameters.avoid.trim() }));
+  return summary;
+}
@@ -0,0 +1,379 @@
+/** English strings, the source catalog every other locale must match key for key. */
+export const en = {
+  'app.title': 'Artistic Studio',
+  'app.footer': 'Powered by Gemini AI • Created for artistic expression',
+  'app.language': 'Language',
+
+  'nav.label': 'Studio sections',
+  'nav.styles': 'Artistic Styles',
+  'nav.outfit': 'Outfit Swap',
+  'nav.batch': 'Batch',
+  'nav.clips': 'Clips',
+  'nav.library': 'Styles',
+  'nav.gallery': 'Gallery',
+  'nav.startOver': 'Start Over',
+
+  'quota.user': 'You have used your daily generation quota',
+  'quota.total': 'The daily generation quota is used up',
+  'quota.paused': '({used} of {limit}). New generations are paused until {time}.',
+  'common.dismiss': 'Dismiss',
+  'common.cancel': 'Cancel',
+  'common.optional': '(optional)',
+  'common.chooseStyle': 'Choose Style',
+  'common.concurrency': 'Parallel requests',
+  'common.failed': '{count} failed',
+  'recipe.loaded': 'Recipe loaded. Apply it to your own photo.',
+  'recipe.loadedWithModel': 'Recipe loaded (made with {model}). Apply it to your own photo.',
+  'recipe.modelUnavailable': "Recipe loaded, but {model} isn't available here, so your selected model will be used. Apply it to your own photo.",
+
+  'upload.styleHeading': 'Turn your photos into {highlight}.',
+  'upload.styleHighlight': 'art',
+  'upload.outfitHeading': 'Swap your {highlight} instantly.',
+  'upload.outfitHighlight': 'outfit',
+  'upload.styleIntro': 'Upload an image and choose an artistic style to transform it.',
+  'upload.outfitIntro': 'Upload a photo of yourself, then add photos of the garments or describe the outfit you want to wear.',
+  'upload.drop': 'Click or drag image here',
+  'upload.limits': 'PNG, JPG or WEBP up to 10MB',
+
+  'picker.label': 'Artistic style',
+  'picker.hint': 'Use the arrow keys to choose a style and Enter to apply it.',
+  'editor.chooseStyle': 'Choose Style',
+  'editor.recipeOverride': 'Using the {name} prompt from a shared recipe.',
+  'editor.saveToLibrary': 'Save to library',
+  'editor.useMine': 'Use my version',
+  'editor.compareAll': 'Compare All Styles',
+  'editor.variants': 'Variants',
+  'editor.originalPhoto': 'Original Photo',
+  'editor.maskDone': 'Done',
+  'editor.maskEdit': 'Edit Region',
+  'editor.maskSelect': 'Select Region',
+  'editor.original': 'Original',
+  'editor.result': 'Result',
+  'version.effect': '{style} effect',
+  'version.outfit': 'Outfit swap',
+  'editor.effect': '{style} Effect',
+  'editor.outfitSwap': 'Outfit Swap',
+  'editor.ready': 'Ready to transform your photo into {style}?',
+  'editor.readyOutfit': 'Ready to swap your outfit?',
+  'editor.apply': 'Apply {style} Effect',
+  'editor.swap': 'Swap Outfit',
+  'editor.creating': 'Creating your {style} art...',
+  'editor.swapping': 'Swapping your outfit...',
+  'editor.variantCount': '({count} variants)',
+  'editor.tryAgain': 'Try again',
+  'editor.download': 'Download Masterpiece',
+  'editor.regenerate': 'Regenerate',
+  'editor.resultReady': 'Your {style} result is ready.',
+  'editor.resultReadyOutfit': 'Your outfit swap is ready.',
+  'editor.retrying': 'Retrying in {seconds}s (attempt {attempt})...',
+  'editor.variantsFailed': '{failed} of {total} variants failed. {reason}',
+
+  'outfit.describe': 'Describe the new outfit',
+  'outfit.heading': 'Outfit Description',
+  'outfit.placeholder': 'e.g., A formal black tuxedo with a red bow tie, or a casual summer dress with floral patterns',
+  'outfit.placeholderWithGarments': 'e.g., Tuck the shirt in, roll up the sleeves',
+  'outfit.editorPlaceholder': 'Describe the new outfit...',
+  'outfit.editorPlaceholderWithGarments': 'Optional: refine how the garments are worn...',
+  'outfit.missing': 'Please describe the outfit or add garment photos.',
+
+  'controls.heading': 'Adjust Style',
+  'controls.reset': 'Reset',
+  'controls.strength': 'Strength',
+  'controls.strength.very subtle': 'very subtle',
+  'controls.strength.subtle': 'subtle',
+  'controls.strength.moderate': 'moderate',
+  'controls.strength.strong': 'strong',
+  'controls.strength.full': 'full',
+  'controls.strengthMin': 'Subtle',
+  'controls.strengthMax': 'Full',
+  'controls.palette': 'Palette',
+  'controls.paletteDefault': 'Style default',
+  'controls.paletteCustom': 'Custom',
+  'palette.teal-orange': 'Teal & Orange',
+  'palette.pastel': 'Pastel',
+  'palette.monochrome': 'Monochrome',
+  'palette.earth-tones': 'Earth Tones',
+  'palette.neon': 'Neon',
+  'palette.sepia': 'Sepia',
+  'controls.paletteColor': 'Palette color {index}',
+  'controls.removeColor': 'Remove color {index}',
+  'controls.addColor': 'Add color',
+  'controls.preserveFaces': 'Preserve faces',
+  'controls.keepBackground': 'Keep background',
+  'controls.avoid': 'Avoid',
+  'controls.avoidPlaceholder': 'e.g., paint drips on the face, text',
+
+  'error.rateLimited': 'The image model is busy or your quota is used up. Wait a minute and try again.',
+  'error.safetyBlocked': "The request was blocked by the model's safety filters. Try a different photo or rephrase the prompt.",
+  'error.safetyBlockedReason': "The request was blocked by the model's safety filters ({reason}). Try a different photo or rephrase the prompt.",
+  'error.noImage': "The model didn't return an image. Try again or rephrase the prompt.",
+  'error.noImageReason': 'The model answered without an image: "{reason}". Try rephrasing the prompt.',
+  'error.network': "Couldn't reach the image model. Check your connection and try again.",
+  'error.quotaExceeded': '{message} It resets at midnight UTC.',
+  'error.modelError': "{message} Try another model, or ask whoever runs the studio to check the server's setup.",
+  'error.serverError': '{message} Please try again later.',
+  'error.preprocess.tooLarge': '"{name}" is {size}. Photos must be {max} or smaller.',
+  'error.preprocess.heicUnsupported': "This browser can't read HEIC photos. Export the photo as JPEG and try again.",
+  'error.preprocess.unreadable': '"{name}" could not be read as an image.',
+  'error.preprocess.stillTooLarge': 'The processed image is still larger than {max}. Choose a smaller size or JPEG.',
+  'error.export.unsupportedFormat': "This browser can't encode {format}. Choose another format.",
+  'error.animation.webpUnsupported': "This browser can't encode WebP. Choose GIF or WebM instead.",
+  'error.animation.webmUnsupported': "This browser can't record WebM. Choose GIF or WebP instead.",
+  'error.animation.noFrames': 'There are no frames to put together.',
+  'error.clip.undecodable': "This video couldn't be decoded.",
+  'error.clip.gifUnsupported': "This browser can't read GIF frames. Try Chrome or Edge, or convert the GIF to MP4.",
+  'error.clip.unsupportedType': 'Upload an MP4, WebM or GIF clip.',
+  'parameters.strength': '{strength}% strength',
+  'parameters.facesKept': 'faces kept',
+  'parameters.backgroundKept': 'background kept',
+  'parameters.avoid': 'avoid "{avoid}"',
+
+  'gallery.heading': 'Your {highlight}',
+  'gallery.headingHighlight': 'gallery',
+  'gallery.intro': 'Every result you generate is saved here.',
+  'gallery.loadFailed': "Couldn't load your gallery. Please try again.",
+  'gallery.deleteFailed': "Couldn't delete that result. Please try again.",
+  'gallery.updateFailed': "Couldn't update that result. Please try again.",
+  'gallery.allModes': 'All modes',
+  'gallery.modeStyle': 'Artistic Styles',
+  'gallery.modeOutfit': 'Outfit Swap',
+  'gallery.modeRefine': 'Refinements',
+  'gallery.allStyles': 'All styles',
+  'gallery.favorites': 'Favorites',
+  'gallery.clipFrames': 'Clip frames',
+  'gallery.search': 'Search prompts...',
+  'gallery.empty': 'No saved results match these filters yet.',
+  'gallery.styleResultAlt': '{style} result',
+  'gallery.resultAlt': 'Outfit swap result',
+  'gallery.originalAlt': 'Original',
+  'gallery.favorite': 'Add to favorites',
+  'gallery.unfavorite': 'Remove from favorites',
+  'gallery.refinement': 'Refinement',
+  'gallery.outfitSwap': 'Outfit Swap',
+  'gallery.seed': 'seed {seed}',
+  'gallery.copyPrompt': 'Copy prompt',
+  'gallery.download': 'Download',
+  'gallery.delete': 'Delete',
+
+  'model.label': 'Model',
+  'model.provider.gemini.description': 'Google Gemini image model. Needs network access and is billed per image.',
+  'model.fake.label': 'Fake (echo)',
+  'model.fake.description': 'Returns the uploaded photo unchanged.',
+  'model.local-posterize.label': 'Posterize (local)',
+  'model.local-posterize.description': 'Flattens colors into a few bold bands.',
+  'model.local-edges.label': 'Edge Detect (local)',
+  'model.local-edges.description': 'Traces outlines as dark lines on white.',
+  'model.local-halftone.label': 'Halftone (local)',
+  'model.local-halftone.description': 'Redraws the photo as newspaper print dots.',
+  'garments.heading': 'Garment Photos',
+  'garments.tooMany': 'Only {max} garment images fit in one swap.',
+  'garments.alt': 'Garment {index}',
+  'garments.remove': 'Remove garment {index}',
+  'garments.hint': 'Add product photos of a top, shoes or other items, up to {max}. The description becomes optional.',
+  'recipeMenu.heading': 'Recipe',
+  'recipeMenu.copyLink': 'Copy Link',
+  'recipeMenu.export': 'Export',
+  'recipeMenu.import': 'Import',
+  'recipeMenu.copied': 'Link copied',
+  'recipeMenu.inAddressBar': 'Link is in the address bar',
+  'recipeMenu.loaded': 'Recipe loaded',
+  'recipeMenu.invalidJson': 'That file is not valid JSON.',
+  'candidates.heading': 'Variants ({count})',
+  'candidates.keep': 'Keep selected & favorites',
+  'candidates.use': 'Use variant {index}',
+  'candidates.alt': 'Variant {index}',
+  'candidates.favorite': 'Favorite variant {index}',
+  'candidates.unfavorite': 'Unfavorite variant {index}',
+  'candidates.discard': 'Discard variant {index}',
+
+  'refine.heading': 'Refine Result',
+  'refine.placeholder': 'e.g., Make the jacket navy, less paint drips...',
+  'refine.apply': 'Apply instruction',
+  'refine.appliesTo': 'Instructions apply to {version}. Pick an earlier version to branch from it.',
+  'refine.compare': 'Compare',
+  'refine.versus': '{before} vs {after}',
+  'refine.clear': 'Clear',
+  'mask.brush': 'Brush',
+  'mask.eraser': 'Eraser',
+  'mask.lasso': 'Lasso',
+  'mask.invert': 'Invert mask',
+  'mask.clear': 'Clear mask',
+  'mask.size': 'Size',
+  'mask.hint': 'Paint the area to change. Everything outside it is kept exactly as in the original.',
+
+  'compare.split': 'Split',
+  'compare.onion': 'Onion Skin',
+  'compare.sideBySide': 'Side by Side',
+  'compare.keys.space': 'Space (hold)',
+  'compare.shortcut.peek': 'Peek at the before image',
+  'compare.shortcut.toggle': 'Toggle between before and after',
+  'compare.shortcut.back': 'Back to the comparison',
+  'compare.shortcut.modes': 'Split, onion skin, side by side',
+  'compare.shortcut.move': 'Move the split or blend',
+  'compare.shortcut.zoom': 'Zoom in, out, reset',
+  'compare.opacity': '{label} opacity',
+  'compare.zoomOut': 'Zoom out',
+  'compare.zoomIn': 'Zoom in',
+  'compare.resetZoom': 'Reset zoom',
+  'compare.shortcuts': 'Keyboard shortcuts',
+  'compare.frame': 'Compare {before} and {after}',
+  'export.heading': 'Export',
+  'export.close': 'Close',
+  'export.format': 'Format',
+  'export.quality': 'Quality',
+  'export.size': 'Size',
+  'export.upscale': '{scale}× upscale',
+  'export.layout': 'Layout',
+  'export.layoutResult': 'Result',
+  'export.layoutBeforeAfter': 'Before & After',
+  'export.details': 'Embedded Details',
+  'export.style': 'Style',
+  'export.outfitSwap': 'Outfit swap',
+  'export.model': 'Model',
+  'export.seed': 'Seed',
+  'export.prompt': 'Prompt',
+  'export.capped': 'Capped at {max}px on the longest side',
+  'export.download': 'Download',
+
+  'preprocess.heading': 'Prepare your {highlight}',
+  'preprocess.headingHighlight': 'photo',
+  'preprocess.preview': 'Preview',
+  'preprocess.crop': 'Crop',
+  'preprocess.free': 'Free',
+  'preprocess.noCrop': 'No crop',
+  'preprocess.maxSize': 'Max Size',
+  'preprocess.original': 'Original',
+  'preprocess.format': 'Format',
+  'preprocess.auto': 'Auto',
+  'preprocess.willSend': 'Will send',
+  'preprocess.processing': 'Processing…',
+  'preprocess.use': 'Use Photo',
+
+  'usage.requests': 'Requests',
+  'usage.requestsFailed': '{requests} ({failures} failed)',
+  'usage.tokens': 'Tokens in / out',
+  'usage.latency': 'Avg latency',
+  'usage.cost': 'Est. cost',
+  'usage.quotaReached': 'Daily quota reached. Generation is paused until {time}.',
+  'usage.browserToday': 'Today in this browser',
+  'usage.allTime': 'All time: {requests} requests • {cost}',
+  'usage.serverToday': 'Server today',
+  'usage.you': 'You',
+  'usage.everyone': 'Everyone',
+  'usage.serverUsage': '{requests} requests • {cost}',
+  'usage.dailyLimit': 'Daily limit (this browser)',
+  'usage.noLimit': 'No limit',
+  'usage.estimates': 'Costs are estimates at list prices.',
+  'usage.clear': 'Clear log',
+
+  'matrix.heading': 'Compare Styles',
+  'matrix.close': 'Close',
+  'matrix.resultAlt': '{style} result',
+  'matrix.use': 'Use this result',
+  'matrix.renderOne': 'Render {count} Style',
+  'matrix.render': 'Render {count} Styles',
+  'matrix.export': 'Export Contact Sheet',
+  'matrix.exportFailed': "Couldn't export the contact sheet. {reason}",
+  'matrix.renderFailed': "Couldn't prepare the photo for the matrix. {reason}",
+
+  'batch.status.queued': 'Queued',
+  'batch.status.processing': 'Processing',
+  'batch.status.done': 'Done',
+  'batch.status.error': 'Failed',
+  'batch.status.cancelled': 'Cancelled',
+  'batch.add': 'Add photos to the batch',
+  'batch.cancel': 'Cancel Batch',
+  'batch.runOne': 'Run {count} Photo',
+  'batch.run': 'Run {count} Photos',
+  'batch.download': 'Download {count} as ZIP',
+  'batch.queue': 'Batch Queue',
+  'batch.finished': '{finished} / {total} finished',
+  'batch.empty': 'Drop in as many photos as you like and apply one style to all of them.',
+  'batch.resultAlt': '{name} result',
+  'batch.cancelItem': 'Cancel {name}',
+  'batch.retryItem': 'Retry {name}',
+  'batch.removeItem': 'Remove {name}',
+
+  'clips.drop': 'Drop an MP4, WebM or GIF clip',
+  'clips.fps': 'Frames per second',
+  'clips.fpsChoice': '{fps} fps',
+  'clips.summary': '{count} frames • {width} × {height}',
+  'clips.costOne': 'About {cost} for {count} remaining frame',
+  'clips.cost': 'About {cost} for {count} remaining frames',
+  'clips.truncated': 'Only the first {max} frames are used. Pick a lower fps to cover more of the clip.',
+  'clips.finish': 'Finish {count} Frames',
+  'clips.stylize': 'Stylize {count} Frames',
+  'clips.firstFailed': 'The first frame failed, so the rest were not started. {reason}',
+  'clips.frames': 'Frames',
+  'clips.styled': '{done} / {total} styled',
+  'clips.reading': 'Reading frames…',
+  'clips.empty': 'Turn a short clip into an animated painting, one frame at a time.',
+  'clips.frame': 'Frame {index}',
+  'clips.output': 'Output',
+  'clips.animatedWebp': 'Animated WebP',
+  'clips.assemble': 'Assemble',
+  'clips.assembling': 'Assembling…',
+  'clips.download': 'Download',
+  'clips.outputAlt': 'Stylized clip',
+
+  'library.heading': 'Style {highlight}',
+  'library.headingHighlight': 'library',
+  'library.intro': 'Create your own styles and share them with your team as style packs.',
+  'library.import': 'Import Pack',
+  'library.export': 'Export Pack',
+  'library.new': 'New Style',
+  'library.all': 'All Styles',
+  'library.builtIn': 'Built-in',
+  'library.duplicate': 'Duplicate {name}',
+  'library.edit': 'Edit {name}',
+  'library.delete': 'Delete {name}',
+  'library.editHeading': 'Edit Style',
+  'library.copyName': '{name} Copy',
+  'library.name': 'Name',
+  'library.namePlaceholder': 'e.g., Ukiyo-e',
+  'library.icon': 'Icon',
+  'library.description': 'Description',
+  'library.descriptionPlaceholder': 'e.g., Flat woodblock colors and bold outlines',
+  'library.prompt': 'Prompt',
+  'library.preview': 'Preview:',
+  'library.save': 'Save Changes',
+  'library.create': 'Create Style',
+  'library.saved': 'Saved "{name}".',
+  'library.confirmDelete': 'Delete the "{name}" style?',
+  'library.confirmReplaceOne': 'This pack would replace your existing style {names}. Replace it?',
+  'library.confirmReplace': 'This pack would replace your existing styles {names}. Replace them?',
+  'library.importedOne': 'Imported {count} style.',
+  'library.imported': 'Imported {count} styles.',
+  'library.replaced': 'Replaced {names}.',
+  'icon.sparkles': 'Sparkles',
+  'icon.palette': 'Palette',
+  'icon.pencil': 'Pencil',
+  'icon.zap': 'Lightning',
+  'icon.pencil-line': 'Pencil line',
+  'icon.layout-grid': 'Grid',
+  'icon.brush': 'Brush',
+  'icon.feather': 'Feather',
+  'icon.flower': 'Flower',
+  'icon.leaf': 'Leaf',
+  'icon.mountain': 'Mountain',
+  'icon.waves': 'Waves',
+  'icon.sun': 'Sun',
+  'icon.moon': 'Moon',
+  'icon.flame': 'Flame',
+  'icon.droplet': 'Droplet',
+  'icon.camera': 'Camera',
+  'icon.star': 'Star',
+
+  'style.watercolor.label': 'Watercolor',
+  'style.watercolor.description': 'Soft splashes and vibrant drips',
+  'style.oil.label': 'Oil Painting',
+  'style.oil.description': 'Thick strokes and rich textures',
+  'style.charcoal.label': 'Charcoal',
+  'style.charcoal.description': 'Rough, dramatic hand-drawn lines',
+  'style.cyberpunk.label': 'Cyberpunk',
+  'style.cyberpunk.description': 'Neon glows and futuristic vibes',
+  'style.pencil.label': 'Pencil',
+  'style.pencil.description': 'Classic graphite sketch',
+  'style.popart.label': 'Pop Art',
+  'style.popart.description': 'Bold colors and comic patterns',
+};
@@ -0,0 +1,380 @@
+import type { Messages } from './index';
+
+export const es: Messages = {
+  'app.title': 'Estudio Artístico',
+  'app.footer': 'Con la tecnología de Gemini AI • Creado para la expresión artística',
+  'app.language': 'Idioma',
+
+  'nav.label': 'Secciones del estudio',
+  'nav.styles': 'Estilos artísticos',
+  'nav.outfit': 'Cambio de ropa',
+  'nav.batch': 'Lotes',
+  'nav.clips': 'Clips',
+  'nav.library': 'Estilos',
+  'nav.gallery': 'Galería',
+  'nav.startOver': 'Empezar de nuevo',
+
+  'quota.user': 'Has agotado tu cuota diaria de generaciones',
+  'quota.total': 'La cuota diaria de generaciones está agotada',
+  'quota.paused': '({used} de {limit}). Las nuevas generaciones están en pausa hasta {time}.',
+  'common.dismiss': 'Descartar',
+  'common.cancel': 'Cancelar',
+  'common.optional': '(opcional)',
+  'common.chooseStyle': 'Elige un estilo',
+  'common.concurrency': 'Solicitudes en paralelo',
+  'common.failed': '{count} con error',
+  'recipe.loaded': 'Receta cargada. Aplícala a tu propia foto.',
+  'recipe.loadedWithModel': 'Receta cargada (hecha con {model}). Aplícala a tu propia foto.',
+  'recipe.modelUnavailable': 'Receta cargada, pero {model} no está disponible aquí, así que se usará el modelo que tienes elegido. Aplícala a tu propia foto.',
+
+  'upload.styleHeading': 'Convierte tus fotos en {highlight}.',
+  'upload.styleHighlight': 'arte',
+  'upload.outfitHeading': 'Cambia tu {highlight} al instante.',
+  'upload.outfitHighlight': 'ropa',
+  'upload.styleIntro': 'Sube una imagen y elige un estilo artístico para transformarla.',
+  'upload.outfitIntro': 'Sube una foto tuya y luego añade fotos de las prendas o describe la ropa que quieres llevar.',
+  'upload.drop': 'Haz clic o arrastra una imagen aquí',
+  'upload.limits': 'PNG, JPG o WEBP de hasta 10 MB',
+
+  'picker.label': 'Estilo artístico',
+  'picker.hint': 'Usa las flechas para elegir un estilo y Intro para aplicarlo.',
+  'editor.chooseStyle': 'Elige un estilo',
+  'editor.recipeOverride': 'Usando el prompt de {name} de una receta compartida.',
+  'editor.saveToLibrary': 'Guardar en la biblioteca',
+  'editor.useMine': 'Usar mi versión',
+  'editor.compareAll': 'Comparar todos los estilos',
+  'editor.variants': 'Variantes',
+  'editor.originalPhoto': 'Foto original',
+  'editor.maskDone': 'Listo',
+  'editor.maskEdit': 'Editar zona',
+  'editor.maskSelect': 'Seleccionar zona',
+  'editor.original': 'Original',
+  'editor.result': 'Resultado',
+  'version.effect': 'Efecto {style}',
+  'version.outfit': 'Cambio de ropa',
+  'editor.effect': 'Efecto {style}',
+  'editor.outfitSwap': 'Cambio de ropa',
+  'editor.ready': '¿Listo para convertir tu foto en {style}?',
+  'editor.readyOutfit': '¿Listo para cambiar tu ropa?',
+  'editor.apply': 'Aplicar efecto {style}',
+  'editor.swap': 'Cambiar ropa',
+  'editor.creating': 'Creando tu obra en {style}...',
+  'editor.swapping': 'Cambiando tu ropa...',
+  'editor.variantCount': '({count} variantes)',
+  'editor.tryAgain': 'Reintentar',
+  'editor.download': 'Descargar obra maestra',
+  'editor.regenerate': 'Regenerar',
+  'editor.resultReady': 'Tu resultado en {style} está listo.',
+  'editor.resultReadyOutfit': 'Tu cambio de ropa está listo.',
+  'editor.retrying': 'Reintentando en {seconds} s (intento {attempt})...',
+  'editor.variantsFailed': 'Fallaron {failed} de {total} variantes. {reason}',
+
+  'outfit.describe': 'Describe la ropa nueva',
+  'outfit.heading': 'Descripción de la ropa',
+  'outfit.placeholder': 'p. ej., Un esmoquin negro con pajarita roja, o un vestido de verano con estampado de flores',
+  'outfit.placeholderWithGarments': 'p. ej., Meter la camisa por dentro, remangar las mangas',
+  'outfit.editorPlaceholder': 'Describe la ropa nueva...',
+  'outfit.editorPlaceholderWithGarments': 'Opcional: indica cómo llevar las prendas...',
+  'outfit.missing': 'Describe la ropa o añade fotos de las prendas.',
+
+  'controls.heading': 'Ajustar estilo',
+  'controls.reset': 'Restablecer',
+  'controls.strength': 'Intensidad',
+  'controls.strength.very subtle': 'muy sutil',
+  'controls.strength.subtle': 'sutil',
+  'controls.strength.moderate': 'moderada',
+  'controls.strength.strong': 'fuerte',
+  'controls.strength.full': 'máxima',
+  'controls.strengthMin': 'Sutil',
+  'controls.strengthMax': 'Máxima',
+  'controls.palette': 'Paleta',
+  'controls.paletteDefault': 'La del estilo',
+  'controls.paletteCustom': 'Personalizada',
+  'palette.teal-orange': 'Verde azulado y naranja',
+  'palette.pastel': 'Pastel',
+  'palette.monochrome': 'Monocromo',
+  'palette.earth-tones': 'Tonos tierra',
+  'palette.neon': 'Neón',
+  'palette.sepia': 'Sepia',
+  'controls.paletteColor': 'Color {index} de la paleta',
+  'controls.removeColor': 'Quitar el color {index}',
+  'controls.addColor': 'Añadir color',
+  'controls.preserveFaces': 'Conservar rostros',
+  'controls.keepBackground': 'Mantener el fondo',
+  'controls.avoid': 'Evitar',
+  'controls.avoidPlaceholder': 'p. ej., goteo de pintura en la cara, texto',
+
+  'error.rateLimited': 'El modelo de imagen está ocupado o se agotó tu cuota. Espera un minuto y vuelve a intentarlo.',
+  'error.safetyBlocked': 'Los filtros de seguridad del modelo bloquearon la solicitud. Prueba con otra foto o reformula el prompt.',
+  'error.safetyBlockedReason': 'Los filtros de seguridad del modelo bloquearon la solicitud ({reason}). Prueba con otra foto o reformula el prompt.',
+  'error.noImage': 'El modelo no devolvió ninguna imagen. Vuelve a intentarlo o reformula el prompt.',
+  'error.noImageReason': 'El modelo respondió sin imagen: «{reason}». Prueba a reformular el prompt.',
+  'error.network': 'No se pudo contactar con el modelo de imagen. Revisa tu conexión y vuelve a intentarlo.',
+  'error.quotaExceeded': '{message} Se restablece a medianoche (UTC).',
+  'error.modelError': '{message} Prueba con otro modelo o pide a quien administra el estudio que revise la configuración del servidor.',
+  'error.serverError': '{message} Vuelve a intentarlo más tarde.',
+  'error.preprocess.tooLarge': '«{name}» ocupa {size}. Las fotos deben ocupar {max} o menos.',
+  'error.preprocess.heicUnsupported': 'Este navegador no puede leer fotos HEIC. Exporta la foto como JPEG y vuelve a intentarlo.',
+  'error.preprocess.unreadable': 'No se pudo leer «{name}» como imagen.',
+  'error.preprocess.stillTooLarge': 'La imagen procesada sigue ocupando más de {max}. Elige un tamaño menor o JPEG.',
+  'error.export.unsupportedFormat': 'Este navegador no puede codificar {format}. Elige otro formato.',
+  'error.animation.webpUnsupported': 'Este navegador no puede codificar WebP. Elige GIF o WebM.',
+  'error.animation.webmUnsupported': 'Este navegador no puede grabar WebM. Elige GIF o WebP.',
+  'error.animation.noFrames': 'No hay fotogramas que unir.',
+  'error.clip.undecodable': 'No se pudo decodificar este vídeo.',
+  'error.clip.gifUnsupported': 'Este navegador no puede leer los fotogramas de un GIF. Prueba con Chrome o Edge, o convierte el GIF a MP4.',
+  'error.clip.unsupportedType': 'Sube un clip MP4, WebM o GIF.',
+  'parameters.strength': 'intensidad {strength}%',
+  'parameters.facesKept': 'rostros conservados',
+  'parameters.backgroundKept': 'fondo conservado',
+  'parameters.avoid': 'evitar «{avoid}»',
+
+  'gallery.heading': 'Tu {highlight}',
+  'gallery.headingHighlight': 'galería',
+  'gallery.intro': 'Aquí se guarda cada resultado que generas.',
+  'gallery.loadFailed': 'No se pudo cargar tu galería. Vuelve a intentarlo.',
+  'gallery.deleteFailed': 'No se pudo eliminar ese resultado. Vuelve a intentarlo.',
+  'gallery.updateFailed': 'No se pudo actualizar ese resultado. Vuelve a intentarlo.',
+  'gallery.allModes': 'Todos los modos',
+  'gallery.modeStyle': 'Estilos artísticos',
+  'gallery.modeOutfit': 'Cambio de ropa',
+  'gallery.modeRefine': 'Retoques',
+  'gallery.allStyles': 'Todos los estilos',
+  'gallery.favorites': 'Favoritos',
+  'gallery.clipFrames': 'Fotogramas de clips',
+  'gallery.search': 'Buscar en los prompts...',
+  'gallery.empty': 'Todavía no hay resultados guardados que coincidan con estos filtros.',
+  'gallery.styleResultAlt': 'Resultado en {style}',
+  'gallery.resultAlt': 'Resultado del cambio de ropa',
+  'gallery.originalAlt': 'Original',
+  'gallery.favorite': 'Añadir a favoritos',
+  'gallery.unfavorite': 'Quitar de favoritos',
+  'gallery.refinement': 'Retoque',
+  'gallery.outfitSwap': 'Cambio de ropa',
+  'gallery.seed': 'semilla {seed}',
+  'gallery.copyPrompt': 'Copiar prompt',
+  'gallery.download': 'Descargar',
+  'gallery.delete': 'Eliminar',
+
+  'model.label': 'Modelo',
+  'model.provider.gemini.description': 'Modelo de imagen Google Gemini. Necesita conexión a internet y se factura por imagen.',
+  'model.fake.label': 'Simulado (eco)',
+  'model.fake.description': 'Devuelve la foto subida sin cambios.',
+  'model.local-posterize.label': 'Posterizar (local)',
+  'model.local-posterize.description': 'Reduce los colores a unas pocas franjas intensas.',
+  'model.local-edges.label': 'Detección de bordes (local)',
+  'model.local-edges.description': 'Traza los contornos como líneas oscuras sobre blanco.',
+  'model.local-halftone.label': 'Semitono (local)',
+  'model.local-halftone.description': 'Redibuja la foto con puntos de imprenta de periódico.',
+  'garments.heading': 'Fotos de prendas',
+  'garments.tooMany': 'En un cambio solo caben {max} fotos de prendas.',
+  'garments.alt': 'Prenda {index}',
+  'garments.remove': 'Quitar la prenda {index}',
+  'garments.hint': 'Añade fotos de producto de una camiseta, unos zapatos u otras prendas, hasta {max}. La descripción pasa a ser opcional.',
+  'recipeMenu.heading': 'Receta',
+  'recipeMenu.copyLink': 'Copiar enlace',
+  'recipeMenu.export': 'Exportar',
+  'recipeMenu.import': 'Importar',
+  'recipeMenu.copied': 'Enlace copiado',
+  'recipeMenu.inAddressBar': 'El enlace está en la barra de direcciones',
+  'recipeMenu.loaded': 'Receta cargada',
+  'recipeMenu.invalidJson': 'Ese archivo no es un JSON válido.',
+  'candidates.heading': 'Variantes ({count})',
+  'candidates.keep': 'Quedarse con la elegida y los favoritos',
+  'candidates.use': 'Usar la variante {index}',
+  'candidates.alt': 'Variante {index}',
+  'candidates.favorite': 'Marcar la variante {index} como favorita',
+  'candidates.unfavorite': 'Quitar la variante {index} de favoritos',
+  'candidates.discard': 'Descartar la variante {index}',
+
+  'refine.heading': 'Retocar el resultado',
+  'refine.placeholder': 'p. ej., La chaqueta en azul marino, menos goteo de pintura...',
+  'refine.apply': 'Aplicar la instrucción',
+  'refine.appliesTo': 'Las instrucciones se aplican a {version}. Elige una versión anterior para crear una rama a partir de ella.',
+  'refine.compare': 'Comparar',
+  'refine.versus': '{before} frente a {after}',
+  'refine.clear': 'Borrar',
+  'mask.brush': 'Pincel',
+  'mask.eraser': 'Borrador',
+  'mask.lasso': 'Lazo',
+  'mask.invert': 'Invertir la máscara',
+  'mask.clear': 'Borrar la máscara',
+  'mask.size': 'Tamaño',
+  'mask.hint': 'Pinta la zona que quieres cambiar. Todo lo que quede fuera se mantiene exactamente como en el original.',
+
+  'compare.split': 'Dividido',
+  'compare.onion': 'Superpuesto',
+  'compare.sideBySide': 'Lado a lado',
+  'compare.keys.space': 'Espacio (mantener)',
+  'compare.shortcut.peek': 'Ver la imagen de antes',
+  'compare.shortcut.toggle': 'Alternar entre antes y después',
+  'compare.shortcut.back': 'Volver a la comparación',
+  'compare.shortcut.modes': 'Dividido, superpuesto, lado a lado',
+  'compare.shortcut.move': 'Mover la división o la mezcla',
+  'compare.shortcut.zoom': 'Acercar, alejar, restablecer',
+  'compare.opacity': 'Opacidad de {label}',
+  'compare.zoomOut': 'Alejar',
+  'compare.zoomIn': 'Acercar',
+  'compare.resetZoom': 'Restablecer el zoom',
+  'compare.shortcuts': 'Atajos de teclado',
+  'compare.frame': 'Comparar {before} y {after}',
+  'export.heading': 'Exportar',
+  'export.close': 'Cerrar',
+  'export.format': 'Formato',
+  'export.quality': 'Calidad',
+  'export.size': 'Tamaño',
+  'export.upscale': '{scale}× ampliada',
+  'export.layout': 'Composición',
+  'export.layoutResult': 'Resultado',
+  'export.layoutBeforeAfter': 'Antes y después',
+  'export.details': 'Datos incrustados',
+  'export.style': 'Estilo',
+  'export.outfitSwap': 'Cambio de ropa',
+  'export.model': 'Modelo',
+  'export.seed': 'Semilla',
+  'export.prompt': 'Prompt',
+  'export.capped': 'Limitada a {max} px en el lado más largo',
+  'export.download': 'Descargar',
+
+  'preprocess.heading': 'Prepara tu {highlight}',
+  'preprocess.headingHighlight': 'foto',
+  'preprocess.preview': 'Vista previa',
+  'preprocess.crop': 'Recorte',
+  'preprocess.free': 'Libre',
+  'preprocess.noCrop': 'Sin recorte',
+  'preprocess.maxSize': 'Tamaño máximo',
+  'preprocess.original': 'Original',
+  'preprocess.format': 'Formato',
+  'preprocess.auto': 'Automático',
+  'preprocess.willSend': 'Se enviará',
+  'preprocess.processing': 'Procesando…',
+  'preprocess.use': 'Usar la foto',
+
+  'usage.requests': 'Solicitudes',
+  'usage.requestsFailed': '{requests} ({failures} fallidas)',
+  'usage.tokens': 'Tokens de entrada / salida',
+  'usage.latency': 'Latencia media',
+  'usage.cost': 'Coste estimado',
+  'usage.quotaReached': 'Cuota diaria alcanzada. La generación está en pausa hasta {time}.',
+  'usage.browserToday': 'Hoy en este navegador',
+  'usage.allTime': 'En total: {requests} solicitudes • {cost}',
+  'usage.serverToday': 'Servidor hoy',
+  'usage.you': 'Tú',
+  'usage.everyone': 'Todos',
+  'usage.serverUsage': '{requests} solicitudes • {cost}',
+  'usage.dailyLimit': 'Límite diario (este navegador)',
+  'usage.noLimit': 'Sin límite',
+  'usage.estimates': 'Los costes son estimaciones a precios de tarifa.',
+  'usage.clear': 'Borrar el registro',
+
+  'matrix.heading': 'Comparar estilos',
+  'matrix.close': 'Cerrar',
+  'matrix.resultAlt': 'Resultado en {style}',
+  'matrix.use': 'Usar este resultado',
+  'matrix.renderOne': 'Generar {count} estilo',
+  'matrix.render': 'Generar {count} estilos',
+  'matrix.export': 'Exportar hoja de contactos',
+  'matrix.exportFailed': 'No se pudo exportar la hoja de contactos. {reason}',
+  'matrix.renderFailed': 'No se pudo preparar la foto para la matriz. {reason}',
+
+  'batch.status.queued': 'En cola',
+  'batch.status.processing': 'Procesando',
+  'batch.status.done': 'Listo',
+  'batch.status.error': 'Falló',
+  'batch.status.cancelled': 'Cancelado',
+  'batch.add': 'Añade fotos al lote',
+  'batch.cancel': 'Cancelar el lote',
+  'batch.runOne': 'Procesar {count} foto',
+  'batch.run': 'Procesar {count} fotos',
+  'batch.download': 'Descargar {count} en ZIP',
+  'batch.queue': 'Cola del lote',
+  'batch.finished': '{finished} / {total} terminadas',
+  'batch.empty': 'Añade todas las fotos que quieras y aplica un mismo estilo a todas.',
+  'batch.resultAlt': 'Resultado de {name}',
+  'batch.cancelItem': 'Cancelar {name}',
+  'batch.retryItem': 'Reintentar {name}',
+  'batch.removeItem': 'Quitar {name}',
+
+  'clips.drop': 'Suelta un clip MP4, WebM o GIF',
+  'clips.fps': 'Fotogramas por segundo',
+  'clips.fpsChoice': '{fps} fps',
+  'clips.summary': '{count} fotogramas • {width} × {height}',
+  'clips.costOne': 'Unos {cost} por {count} fotograma pendiente',
+  'clips.cost': 'Unos {cost} por {count} fotogramas pendientes',
+  'clips.truncated': 'Solo se usan los primeros {max} fotogramas. Elige menos fps para abarcar más del clip.',
+  'clips.finish': 'Terminar {count} fotogramas',
+  'clips.stylize': 'Estilizar {count} fotogramas',
+  'clips.firstFailed': 'Falló el primer fotograma, así que no se empezó con el resto. {reason}',
+  'clips.frames': 'Fotogramas',
+  'clips.styled': '{done} / {total} estilizados',
+  'clips.reading': 'Leyendo los fotogramas…',
+  'clips.empty': 'Convierte un clip corto en una pintura animada, fotograma a fotograma.',
+  'clips.frame': 'Fotograma {index}',
+  'clips.output': 'Resultado',
+  'clips.animatedWebp': 'WebP animado',
+  'clips.assemble': 'Montar',
+  'clips.assembling': 'Montando…',
+  'clips.download': 'Descargar',
+  'clips.outputAlt': 'Clip estilizado',
+
+  'library.heading': '{highlight} de estilos',
+  'library.headingHighlight': 'Biblioteca',
+  'library.intro': 'Crea tus propios estilos y compártelos con tu equipo como paquetes de estilos.',
+  'library.import': 'Importar paquete',
+  'library.export': 'Exportar paquete',
+  'library.new': 'Nuevo estilo',
+  'library.all': 'Todos los estilos',
+  'library.builtIn': 'Integrado',
+  'library.duplicate': 'Duplicar {name}',
+  'library.edit': 'Editar {name}',
+  'library.delete': 'Eliminar {name}',
+  'library.editHeading': 'Editar estilo',
+  'library.copyName': '{name} (copia)',
+  'library.name': 'Nombre',
+  'library.namePlaceholder': 'p. ej., Ukiyo-e',
+  'library.icon': 'Icono',
+  'library.description': 'Descripción',
+  'library.descriptionPlaceholder': 'p. ej., Colores planos de xilografía y contornos marcados',
+  'library.prompt': 'Prompt',
+  'library.preview': 'Vista previa:',
+  'library.save': 'Guardar cambios',
+  'library.create': 'Crear estilo',
+  'library.saved': 'Se guardó «{name}».',
+  'library.confirmDelete': '¿Eliminar el estilo «{name}»?',
+  'library.confirmReplaceOne': 'Este paquete reemplazaría tu estilo {names}. ¿Reemplazarlo?',
+  'library.confirmReplace': 'Este paquete reemplazaría tus estilos {names}. ¿Reemplazarlos?',
+  'library.importedOne': 'Se importó {count} estilo.',
+  'library.imported': 'Se importaron {count} estilos.',
+  'library.replaced': 'Se reemplazaron {names}.',
+  'icon.sparkles': 'Destellos',
+  'icon.palette': 'Paleta',
+  'icon.pencil': 'Lápiz',
+  'icon.zap': 'Rayo',
+  'icon.pencil-line': 'Trazo de lápiz',
+  'icon.layout-grid': 'Cuadrícula',
+  'icon.brush': 'Pincel',
+  'icon.feather': 'Pluma',
+  'icon.flower': 'Flor',
+  'icon.leaf': 'Hoja',
+  'icon.mountain': 'Montaña',
+  'icon.waves': 'Olas',
+  'icon.sun': 'Sol',
+  'icon.moon': 'Luna',
+  'icon.flame': 'Llama',
+  'icon.droplet': 'Gota',
+  'icon.camera': 'Cámara',
+  'icon.star': 'Estrella',
+
+  'style.watercolor.label': 'Acuarela',
+  'style.watercolor.description': 'Salpicaduras suaves y goteos vivos',
+  'style.oil.label': 'Óleo',
+  'style.oil.description': 'Pinceladas gruesas y texturas ricas',
+  'style.charcoal.label': 'Carboncillo',
+  'style.charcoal.description': 'Trazos a mano, ásperos y dramáticos',
+  'style.cyberpunk.label': 'Cyberpunk',
+  'style.cyberpunk.description': 'Brillos de neón y aire futurista',
+  'style.pencil.label': 'Lápiz',
+  'style.pencil.description': 'Boceto clásico de grafito',
+  'style.popart.label': 'Pop Art',
+  'style.popart.description': 'Colores intensos y tramas de cómic',
+};
@@ -0,0 +1,43 @@
+import { en } from './en';
+import { es } from './es';
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
+
+export type Locale = 'en' | 'es';
+
+/** Looks a message up in the reader's language, like `t` from useI18n. */
+export type Translate = (key: MessageKey, values?: Record<string, string | number>) => string;
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Messages> = { en, es };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((locale) => locale.value === value);
+}
+
+/** The first of the browser's preferred languages that has a catalog. */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function hasMessage(key: string): key is MessageKey {
+  return key in en;
+}
+
+/** Looks the key up and fills `{name}` placeholders from `values`. */
+export function translate(locale: Locale, key: MessageKey, values: Record<string, string | number> = {}): string {
+  const template = CATALOGS[locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+}
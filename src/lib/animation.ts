@@ -0,0 +1,113 @@
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import { sleep } from '../shared/retry';
+import { concat } from './bytes';
+import { canvasToBlob, createCanvas, drawContained, loadImage } from './canvas';
+import { VP8X_ALPHA, VP8X_ANIMATION, uint24, vp8xChunk, webpFile, webpImageChunks, writeChunk } from './webp';
+
+export type AnimationFormat = 'image/webp' | 'image/gif' | 'video/webm';
+
+export const ANIMATION_FORMATS: { value: AnimationFormat; label: string; extension: string }[] = [
+  { value: 'image/webp', label: 'Animated WebP', extension: 'webp' },
+  { value: 'image/gif', label: 'GIF', extension: 'gif' },
+  { value: 'video/webm', label: 'WebM', extension: 'webm' },
+];
+
+export type AnimationErrorCode = 'webp_unsupported' | 'webm_unsupported' | 'no_frames';
+
+/** An animation the browser can't put together, coded like `PreprocessError`. */
+export class AnimationError extends Error {
+  readonly code: AnimationErrorCode;
+  readonly values: Record<string, string | number>;
+
+  constructor(code: AnimationErrorCode, message: string, values: Record<string, string | number> = {}) {
+    super(message);
+    this.name = 'AnimationError';
+    this.code = code;
+    this.values = values;
+  }
+}
+
+/** Draws every frame onto canvases the size of the first, so odd-sized results still line up. */
+async function renderFrames(frames: string[]): Promise<HTMLCanvasElement[]> {
+  const images = await Promise.all(frames.map(loadImage));
+  const { naturalWidth: width, naturalHeight: height } = images[0];
+  return images.map((image) => {
+    const { canvas, context } = createCanvas(width, height);
+    drawContained(context, image, 0, 0, width, height);
+    return canvas;
+  });
+}
+
+function encodeGif(canvases: HTMLCanvasElement[], delayMs: number): Blob {
+  const gif = GIFEncoder();
+  for (const canvas of canvases) {
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), canvas.width, canvas.height, { palette, delay: delayMs });
+  }
+  gif.finish();
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+}
+
+/**
+ * Browsers can only encode still WebP, so each frame is encoded on its own and
+ * the image data is rewrapped into `ANMF` chunks of an animated WebP.
+ */
+async function encodeWebp(canvases: HTMLCanvasElement[], delayMs: number): Promise<Blob> {
+  const { width, height } = canvases[0];
+  const frames: Uint8Array[] = [];
+  for (const canvas of canvases) {
+    const blob = await canvasToBlob(canvas, 'image/webp', 0.85);
+    if (blob.type !== 'image/webp') {
+      throw new AnimationError('webp_unsupported', "This browser can't encode WebP. Choose GIF or WebM instead.");
+    }
+    const image = webpImageChunks(new Uint8Array(await blob.arrayBuffer()));
+    const header = new Uint8Array(16);
+    uint24(header, 6, width - 1);
+    uint24(header, 9, height - 1);
+    uint24(header, 12, Math.round(delayMs));
+    header[15] = 0b10; // Replace the previous frame instead of blending over it.
+    frames.push(writeChunk('ANMF', concat([header, image])));
+  }
+
+  const anim = new Uint8Array(6); // Transparent background, loop forever.
+  return webpFile([vp8xChunk(VP8X_ANIMATION | VP8X_ALPHA, width, height), writeChunk('ANIM', anim), ...frames]);
+}
+
+/** Records the frames through `MediaRecorder`, which runs in real time. */
+async function encodeWebm(canvases: HTMLCanvasElement[], delayMs: number): Promise<Blob> {
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new AnimationError('webm_unsupported', "This browser can't record WebM. Choose GIF or WebP instead.");
+  }
+  const { canvas, context } = createCanvas(canvases[0].width, canvases[0].height);
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise((resolve) => { recorder.onstop = resolve; });
+
+  recorder.start();
+  for (const frame of canvases) {
+    context.drawImage(frame, 0, 0);
+    track.requestFrame();
+    await sleep(delayMs);
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach((streamTrack) => streamTrack.stop());
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+/** Joins still frames (data URLs) back into an animation playing at `fps`. */
+export async function encodeAnimation(frames: string[], fps: number, format: AnimationFormat): Promise<Blob> {
+  if (frames.length === 0) {
+    throw new AnimationError('no_frames', 'There are no frames to put together.');
+  }
+  const canvases = await renderFrames(frames);
+  const delayMs = 1000 / fps;
+  if (format === 'image/gif') return encodeGif(canvases, delayMs);
+  if (format === 'image/webp') return encodeWebp(canvases, delayMs);
+  return encodeWebm(canvases, delayMs);
+}
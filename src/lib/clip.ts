@@ -0,0 +1,149 @@
+import { createCanvas } from './canvas';
+
+export const CLIP_MIME_TYPES = ['video/mp4', 'video/webm', 'image/gif'];
+
+export const FPS_CHOICES = [4, 8, 12] as const;
+
+// Every frame is a model call, so clips are capped well below what a browser could decode.
+export const MAX_CLIP_FRAMES = 96;
+
+// Frames are sent smaller than stills: there are many of them and motion hides detail.
+const FRAME_MAX_DIMENSION = 768;
+
+export interface ClipFrames {
+  /** JPEG data URLs, one per sampled frame. */
+  frames: string[];
+  width: number;
+  height: number;
+  fps: number;
+  /** Length of the clip itself, not of the sampled part. */
+  durationMs: number;
+  /** True when the clip had more frames at this fps than `MAX_CLIP_FRAMES`. */
+  truncated: boolean;
+}
+
+export type ClipErrorCode = 'undecodable' | 'gif_unsupported' | 'unsupported_type';
+
+/** A clip that can't be read into frames, coded like `PreprocessError`. */
+export class ClipError extends Error {
+  readonly code: ClipErrorCode;
+  readonly values: Record<string, string | number>;
+
+  constructor(code: ClipErrorCode, message: string, values: Record<string, string | number> = {}) {
+    super(message);
+    this.name = 'ClipError';
+    this.code = code;
+    this.values = values;
+  }
+}
+
+export function isClipFile(file: File) {
+  return CLIP_MIME_TYPES.includes(file.type);
+}
+
+function frameCanvas(width: number, height: number) {
+  const scale = Math.min(1, FRAME_MAX_DIMENSION / Math.max(width, height));
+  return createCanvas(Math.round(width * scale), Math.round(height * scale));
+}
+
+function waitFor(target: EventTarget, event: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new ClipError('undecodable', "This video couldn't be decoded.")); };
+    const onAbort = () => { cleanup(); reject(new DOMException('The operation was aborted.', 'AbortError')); };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function extractVideoFrames(file: File, fps: number, signal?: AbortSignal): Promise<ClipFrames> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+  try {
+    await waitFor(video, 'loadeddata', signal);
+    // Recorded WebM often reports an infinite duration until it has been seeked to the end.
+    if (!Number.isFinite(video.duration)) {
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+      await waitFor(video, 'seeked', signal);
+    }
+    const durationMs = video.duration * 1000;
+    const total = Math.max(1, Math.floor((video.duration * fps)));
+    const count = Math.min(total, MAX_CLIP_FRAMES);
+    const { canvas, context } = frameCanvas(video.videoWidth, video.videoHeight);
+
+    const frames: string[] = [];
+    for (let index = 0; index < count; index++) {
+      video.currentTime = index / fps;
+      await waitFor(video, 'seeked', signal);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push(canvas.toDataURL('image/jpeg', 0.9));
+    }
+    return { frames, width: canvas.width, height: canvas.height, fps, durationMs, truncated: total > count };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function extractGifFrames(file: File, fps: number, signal?: AbortSignal): Promise<ClipFrames> {
+  if (typeof ImageDecoder === 'undefined') {
+    throw new ClipError('gif_unsupported', "This browser can't read GIF frames. Try Chrome or Edge, or convert the GIF to MP4.");
+  }
+  const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: file.type });
+  try {
+    await decoder.tracks.ready;
+    const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
+    const interval = 1000 / fps;
+    const frames: string[] = [];
+    let canvas: HTMLCanvasElement | null = null;
+    let context: CanvasRenderingContext2D | null = null;
+    let elapsedMs = 0;
+
+    // GIF frames have their own delays; hold each one for as many samples as fall inside it.
+    for (let index = 0; index < frameCount; index++) {
+      if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+      const { image } = await decoder.decode({ frameIndex: index });
+      if (!canvas || !context) {
+        ({ canvas, context } = frameCanvas(image.displayWidth, image.displayHeight));
+      }
+      // Browsers play delays under 20ms as 100ms, and so do we.
+      const frameMs = image.duration && image.duration >= 20_000 ? image.duration / 1000 : 100;
+      const endMs = elapsedMs + frameMs;
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      image.close();
+      while (frames.length * interval < endMs && frames.length < MAX_CLIP_FRAMES) {
+        frames.push(canvas.toDataURL('image/jpeg', 0.9));
+      }
+      elapsedMs = endMs;
+    }
+
+    return {
+      frames,
+      width: canvas?.width ?? 0,
+      height: canvas?.height ?? 0,
+      fps,
+      durationMs: elapsedMs,
+      truncated: Math.ceil(elapsedMs / interval) > frames.length,
+    };
+  } finally {
+    decoder.close();
+  }
+}
+
+/** Samples a clip at `fps` into still frames, scaled down for the model. */
+export async function extractFrames(file: File, fps: number, signal?: AbortSignal): Promise<ClipFrames> {
+  if (!isClipFile(file)) {
+    throw new ClipError('unsupported_type', 'Upload an MP4, WebM or GIF clip.');
+  }
+  return file.type === 'image/gif' ? extractGifFrames(file, fps, signal) : extractVideoFrames(file, fps, signal);
+}
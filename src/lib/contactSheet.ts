@@ -0,0 +1,38 @@
+import { canvasToBlob, createCanvas, drawContained, loadImage } from './canvas';
+
+export interface ContactSheetTile {
+  label: string;
+  src: string;
+}
+
+const TILE_SIZE = 512;
+const GAP = 24;
+const LABEL_HEIGHT = 40;
+
+/** Lays the tiles out in a labelled grid and encodes it as a single PNG. */
+export async function renderContactSheet(tiles: ContactSheetTile[], columns = 3): Promise<Blob> {
+  const images = await Promise.all(tiles.map((tile) => loadImage(tile.src)));
+  const cols = Math.min(columns, tiles.length);
+  const rows = Math.ceil(tiles.length / cols);
+  const { canvas, context } = createCanvas(
+    GAP + cols * (TILE_SIZE + GAP),
+    GAP + rows * (TILE_SIZE + LABEL_HEIGHT + GAP),
+  );
+
+  context.fillStyle = '#f8f9fa';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.font = '600 20px ui-sans-serif, system-ui, sans-serif';
+  context.textBaseline = 'middle';
+
+  images.forEach((image, index) => {
+    const x = GAP + (index % cols) * (TILE_SIZE + GAP);
+    const y = GAP + Math.floor(index / cols) * (TILE_SIZE + LABEL_HEIGHT + GAP);
+    context.fillStyle = '#ffffff';
+    context.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+    drawContained(context, image, x, y, TILE_SIZE, TILE_SIZE);
+    context.fillStyle = '#1a1a1a';
+    context.fillText(tiles[index].label, x, y + TILE_SIZE + LABEL_HEIGHT / 2);
+  });
+
+  return canvasToBlob(canvas);
+}
@@ -0,0 +1,131 @@
+import { canvasToBlob, createCanvas, loadImage } from './canvas';
+import { stripExtension } from './files';
+import { embedMetadata, type ImageMetadata } from './metadata';
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export type ExportLayout = 'result' | 'side-by-side';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; lossy: boolean }[] = [
+  { value: 'image/png', label: 'PNG', extension: 'png', lossy: false },
+  { value: 'image/jpeg', label: 'JPEG', extension: 'jpg', lossy: true },
+  { value: 'image/webp', label: 'WebP', extension: 'webp', lossy: true },
+];
+
+/** Output size relative to the result; above 1 is a local upscale. */
+export const EXPORT_SCALES = [0.5, 1, 2, 4];
+
+/** Longest side of an export, so a 4× upscale of a large result can't exhaust the browser's canvas memory. */
+export const MAX_EXPORT_DIMENSION = 8192;
+
+const SIDE_BY_SIDE_GAP = 16;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** 0-1, for JPEG and WebP. */
+  quality: number;
+  scale: number;
+  layout: ExportLayout;
+}
+
+export interface ExportSource {
+  result: string;
+  /** The photo the result was made from, for side-by-side exports. */
+  original: string;
+  metadata: ImageMetadata;
+}
+
+export type ExportErrorCode = 'unsupported_format';
+
+/** An export the browser can't produce, coded for a translated message. */
+export class ExportError extends Error {
+  readonly code: ExportErrorCode;
+  readonly values: Record<string, string | number>;
+
+  constructor(code: ExportErrorCode, message: string, values: Record<string, string | number> = {}) {
+    super(message);
+    this.name = 'ExportError';
+    this.code = code;
+    this.values = values;
+  }
+}
+
+/** Pixel size of the export before any clamping, for showing in the dialog. */
+export function exportSize(result: { width: number; height: number }, original: { width: number; height: number }, { scale, layout }: Pick<ExportOptions, 'scale' | 'layout'>) {
+  const height = Math.round(result.height * scale);
+  const width = Math.round(result.width * scale);
+  if (layout === 'result') return { width, height };
+  const originalWidth = Math.round((original.width / original.height) * height);
+  return { width: originalWidth + Math.round(SIDE_BY_SIDE_GAP * scale) + width, height };
+}
+
+/** Resizes in steps of at most 2×, which the browser's smoothing handles far better than one large jump. */
+function resample(source: CanvasImageSource & { width: number; height: number }, width: number, height: number): HTMLCanvasElement {
+  let current: CanvasImageSource = source;
+  let currentWidth = source.width;
+  let currentHeight = source.height;
+  do {
+    currentWidth = currentWidth < width ? Math.min(width, currentWidth * 2) : width;
+    currentHeight = currentHeight < height ? Math.min(height, currentHeight * 2) : height;
+    const { canvas, context } = createCanvas(currentWidth, currentHeight);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(current, 0, 0, currentWidth, currentHeight);
+    current = canvas;
+  } while (currentWidth !== width || currentHeight !== height);
+  return current as HTMLCanvasElement;
+}
+
+function imageCanvas(image: HTMLImageElement) {
+  const { canvas, context } = createCanvas(image.naturalWidth, image.naturalHeight);
+  context.drawImage(image, 0, 0);
+  return canvas;
+}
+
+/** Renders the result (or original and result side by side) at the chosen size and encodes it with metadata. */
+export async function renderExport({ result, original, metadata }: ExportSource, options: ExportOptions): Promise<Blob> {
+  const [resultImage, originalImage] = await Promise.all([loadImage(result), loadImage(original)]);
+  const resultSize = { width: resultImage.naturalWidth, height: resultImage.naturalHeight };
+  const originalSize = { width: originalImage.naturalWidth, height: originalImage.naturalHeight };
+  const wanted = exportSize(resultSize, originalSize, options);
+  const fit = Math.min(1, MAX_EXPORT_DIMENSION / Math.max(wanted.width, wanted.height));
+  const scale = options.scale * fit;
+  const size = exportSize(resultSize, originalSize, { ...options, scale });
+
+  const { canvas, context } = createCanvas(size.width, size.height);
+  // JPEG has no alpha and the gap needs a color, so paint a background first.
+  if (options.layout === 'side-by-side' || options.format === 'image/jpeg') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, size.width, size.height);
+  }
+  const resultWidth = Math.round(resultSize.width * scale);
+  const resultCanvas = resample(imageCanvas(resultImage), resultWidth, size.height);
+  if (options.layout === 'side-by-side') {
+    const originalWidth = size.width - resultWidth - Math.round(SIDE_BY_SIDE_GAP * scale);
+    context.drawImage(resample(imageCanvas(originalImage), originalWidth, size.height), 0, 0);
+  }
+  context.drawImage(resultCanvas, size.width - resultWidth, 0);
+
+  const format = EXPORT_FORMATS.find((candidate) => candidate.value === options.format)!;
+  const blob = await canvasToBlob(canvas, options.format, format.lossy ? options.quality : undefined);
+  if (blob.type !== options.format) {
+    throw new ExportError('unsupported_format', `This browser can't encode ${format.label}. Choose another format.`, { format: format.label });
+  }
+  return embedMetadata(blob, metadata, size.width, size.height);
+}
+
+function timestamp(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function slug(text: string) {
+  return text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/** `<original>-<style>-<timestamp>.<ext>`, e.g. `beach-day-watercolor-20260314-091502.png`. */
+export function exportFilename(originalName: string | null, style: string, { format, layout }: Pick<ExportOptions, 'format' | 'layout'>, date = new Date()) {
+  const extension = EXPORT_FORMATS.find((candidate) => candidate.value === format)!.extension;
+  const parts = [slug(stripExtension(originalName ?? '')) || 'photo', slug(style) || 'result', timestamp(date)];
+  if (layout === 'side-by-side') parts.push('before-after');
+  return `${parts.join('-')}.${extension}`;
+}
@@ -0,0 +1,41 @@
+import { parseDataUrl } from '../shared/dataUrl';
+
+export function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(parseDataUrl(dataUrl).data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function extensionForMimeType(mimeType: string) {
+  return mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+}
+
+export function stripExtension(filename: string) {
+  return filename.replace(/\.[^.]+$/, '');
+}
+
+export function downloadUrl(href: string, filename: string) {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  link.click();
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // Give the browser a moment to start the download before releasing the blob.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,33 @@
+import { createCanvas, loadImage } from './canvas';
+
+/**
+ * Converts a painted mask (anything drawn on a transparent canvas) into the
+ * black-and-white PNG the server expects: white where painted, black elsewhere.
+ */
+export function exportMask(painted: HTMLCanvasElement): string | null {
+  const { canvas, context } = createCanvas(painted.width, painted.height);
+  context.drawImage(painted, 0, 0);
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+  let isEmpty = true;
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const alpha = pixels.data[i + 3];
+    if (alpha > 0) isEmpty = false;
+    pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = alpha;
+    pixels.data[i + 3] = 255;
+  }
+  if (isEmpty) return null;
+  context.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * The server composites masked results itself and can only read JPEG and PNG,
+ * so other formats (a WebP upload, say) are re-encoded as PNG before a masked request.
+ */
+export async function maskableImage(dataUrl: string): Promise<string> {
+  if (/^data:image\/(png|jpeg);/.test(dataUrl)) return dataUrl;
+  const image = await loadImage(dataUrl);
+  const { canvas, context } = createCanvas(image.naturalWidth, image.naturalHeight);
+  context.drawImage(image, 0, 0);
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,157 @@
+import { ascii, concat } from './bytes';
+import { VP8X_ALPHA, VP8X_XMP, readChunks, vp8xChunk, webpFile, writeChunk } from './webp';
+
+/** How an exported image was made, written into the file itself. */
+export interface ImageMetadata {
+  title: string;
+  /** Style id, or null for outfit swaps. */
+  style: string | null;
+  /** The exact text sent to the model. */
+  prompt: string | null;
+  model: string | null;
+  seed: number | null;
+  createdAt: string;
+}
+
+const SOFTWARE = 'Artistic Studio';
+const STUDIO_NAMESPACE = 'https://artistic-studio.app/ns/1.0/';
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+
+function textFields(metadata: ImageMetadata): [string, string][] {
+  const fields: [string, string | null][] = [
+    ['Title', metadata.title],
+    ['Software', SOFTWARE],
+    ['Style', metadata.style],
+    ['Prompt', metadata.prompt],
+    ['Model', metadata.model],
+    ['Seed', metadata.seed === null ? null : String(metadata.seed)],
+    ['Creation Time', metadata.createdAt],
+  ];
+  return fields.filter((field): field is [string, string] => !!field[1]);
+}
+
+function escapeXml(text: string) {
+  return text.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+}
+
+/** An XMP packet with the Dublin Core title and description plus the studio's own fields. */
+function xmpPacket(metadata: ImageMetadata): string {
+  const studio = [
+    ['Style', metadata.style],
+    ['Prompt', metadata.prompt],
+    ['Model', metadata.model],
+    ['Seed', metadata.seed === null ? null : String(metadata.seed)],
+  ]
+    .filter(([, value]) => value)
+    .map(([name, value]) => `   <studio:${name}>${escapeXml(value!)}</studio:${name}>`);
+  const alt = (text: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(text)}</rdf:li></rdf:Alt>`;
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `  <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:studio="${STUDIO_NAMESPACE}">`,
+    `   <xmp:CreatorTool>${SOFTWARE}</xmp:CreatorTool>`,
+    `   <xmp:CreateDate>${escapeXml(metadata.createdAt)}</xmp:CreateDate>`,
+    `   <dc:title>${alt(metadata.title)}</dc:title>`,
+    ...(metadata.prompt ? [`   <dc:description>${alt(metadata.prompt)}</dc:description>`] : []),
+    ...studio,
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="r"?>',
+  ].join('\n');
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(ascii(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/** `tEXt` is Latin-1 only, so anything else goes into a UTF-8 `iTXt` chunk. */
+function pngTextChunk(keyword: string, text: string): Uint8Array {
+  if (/^[\x20-\xff\n]*$/.test(text)) {
+    return pngChunk('tEXt', concat([ascii(keyword), new Uint8Array(1), ascii(text)]));
+  }
+  // Keyword, no compression, empty language tag and translated keyword.
+  return pngChunk('iTXt', concat([ascii(keyword), new Uint8Array(5), new TextEncoder().encode(text)]));
+}
+
+function embedPng(bytes: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  // Right after the 8-byte signature and the 25-byte IHDR chunk, so readers that stop early still see them.
+  const afterHeader = 33;
+  const chunks = textFields(metadata).map(([keyword, text]) => pngTextChunk(keyword, text));
+  chunks.push(pngChunk('iTXt', concat([ascii(XMP_PNG_KEYWORD), new Uint8Array(5), new TextEncoder().encode(xmpPacket(metadata))])));
+  return concat([bytes.subarray(0, afterHeader), ...chunks, bytes.subarray(afterHeader)]);
+}
+
+function embedJpeg(bytes: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  const payload = concat([ascii(XMP_JPEG_HEADER), new TextEncoder().encode(xmpPacket(metadata))]);
+  if (payload.length + 2 > 0xffff) {
+    throw new Error('The prompt is too long to embed in a JPEG. Export as PNG instead.');
+  }
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1], 0);
+  new DataView(segment.buffer).setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+
+  // After SOI and, if present, the JFIF APP0 segment that must come first.
+  let offset = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    offset += 2 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return concat([bytes.subarray(0, offset), segment, bytes.subarray(offset)]);
+}
+
+/** Converts a simple WebP to the extended format, which is the only one with room for XMP. */
+function embedWebp(bytes: Uint8Array, metadata: ImageMetadata, width: number, height: number): Blob {
+  const chunks = readChunks(bytes);
+  const existing = chunks.find(({ fourCC }) => fourCC === 'VP8X');
+  const hasAlpha = chunks.some(({ fourCC }) => fourCC === 'ALPH' || fourCC === 'VP8L');
+  const flags = (existing ? existing.bytes[8] : hasAlpha ? VP8X_ALPHA : 0) | VP8X_XMP;
+  return webpFile([
+    vp8xChunk(flags, width, height),
+    ...chunks.filter(({ fourCC }) => fourCC !== 'VP8X' && fourCC !== 'XMP ').map((chunk) => chunk.bytes),
+    writeChunk('XMP ', new TextEncoder().encode(xmpPacket(metadata))),
+  ]);
+}
+
+/**
+ * Writes the metadata into an encoded PNG (text chunks and XMP), JPEG or WebP
+ * (XMP), so the file records how it was made wherever it ends up.
+ */
+export async function embedMetadata(blob: Blob, metadata: ImageMetadata, width: number, height: number): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  switch (blob.type) {
+    case 'image/png':
+      return new Blob([embedPng(bytes, metadata)], { type: blob.type });
+    case 'image/jpeg':
+      return new Blob([embedJpeg(bytes, metadata)], { type: blob.type });
+    case 'image/webp':
+      return embedWebp(bytes, metadata, width, height);
+    default:
+      return blob;
+  }
+}
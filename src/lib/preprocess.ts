@@ -0,0 +1,146 @@
+import { MAX_IMAGE_BYTES } from '../shared/styles';
+import { createCanvas } from './canvas';
+
+export type OutputFormat = 'auto' | 'image/jpeg' | 'image/png' | 'image/webp';
+
+/** A crop in fractions of the (orientation-corrected) image, 0 to 1 on each axis. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  /** Longest side of the output in pixels, or null to keep the full size. */
+  maxDimension: number | null;
+  format: OutputFormat;
+  quality: number;
+  crop: CropRect | null;
+}
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export const MAX_DIMENSION_CHOICES = [1024, 1536, 2048, null] as const;
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 1536,
+  format: 'auto',
+  quality: 0.9,
+  crop: null,
+};
+
+export type PreprocessErrorCode = 'too_large' | 'heic_unsupported' | 'unreadable' | 'still_too_large';
+
+/**
+ * A photo that can't be read or made small enough to upload. The UI shows the
+ * catalog message for `code`, filled in from `values`; `message` is the English
+ * text for logs.
+ */
+export class PreprocessError extends Error {
+  readonly code: PreprocessErrorCode;
+  readonly values: Record<string, string | number>;
+
+  constructor(code: PreprocessErrorCode, message: string, values: Record<string, string | number> = {}) {
+    super(message);
+    this.name = 'PreprocessError';
+    this.code = code;
+    this.values = values;
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function checkFileSize(file: File) {
+  if (file.size > MAX_IMAGE_BYTES) {
+    const values = { name: file.name, size: formatBytes(file.size), max: formatBytes(MAX_IMAGE_BYTES) };
+    throw new PreprocessError('too_large', `"${values.name}" is ${values.size}. Photos must be ${values.max} or smaller.`, values);
+  }
+}
+
+/**
+ * Decodes a file with its EXIF orientation applied, so phone photos come out
+ * upright once they are redrawn onto a canvas.
+ */
+export async function decodeImageFile(file: File): Promise<ImageBitmap> {
+  checkFileSize(file);
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    const isHeic = /hei[cf]$/i.test(file.type) || /\.hei[cf]$/i.test(file.name);
+    throw isHeic
+      ? new PreprocessError('heic_unsupported', "This browser can't read HEIC photos. Export the photo as JPEG and try again.")
+      : new PreprocessError('unreadable', `"${file.name}" could not be read as an image.`, { name: file.name });
+  }
+}
+
+function hasTransparency(context: CanvasRenderingContext2D, width: number, height: number) {
+  const { data } = context.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+}
+
+function byteLength(dataUrl: string) {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+}
+
+/**
+ * Crops, downscales and re-encodes an image into a format the model accepts.
+ * `auto` keeps PNG only when the image actually uses transparency.
+ */
+export function preprocessImage(source: ImageBitmap, options: PreprocessOptions): PreprocessedImage {
+  const crop = options.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const sx = Math.round(crop.x * source.width);
+  const sy = Math.round(crop.y * source.height);
+  const sw = Math.max(1, Math.round(crop.width * source.width));
+  const sh = Math.max(1, Math.round(crop.height * source.height));
+  const scale = options.maxDimension ? Math.min(1, options.maxDimension / Math.max(sw, sh)) : 1;
+  const width = Math.max(1, Math.round(sw * scale));
+  const height = Math.max(1, Math.round(sh * scale));
+
+  const { canvas, context } = createCanvas(width, height);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+
+  let mimeType = options.format;
+  if (mimeType === 'auto') {
+    mimeType = hasTransparency(context, width, height) ? 'image/png' : 'image/jpeg';
+  }
+
+  // Lower the quality until the result fits under the upload limit.
+  let quality = options.quality;
+  let dataUrl = canvas.toDataURL(mimeType, quality);
+  while (byteLength(dataUrl) > MAX_IMAGE_BYTES && mimeType !== 'image/png' && quality > 0.4) {
+    quality -= 0.1;
+    dataUrl = canvas.toDataURL(mimeType, quality);
+  }
+  if (byteLength(dataUrl) > MAX_IMAGE_BYTES) {
+    const max = formatBytes(MAX_IMAGE_BYTES);
+    throw new PreprocessError('still_too_large', `The processed image is still larger than ${max}. Choose a smaller size or JPEG.`, { max });
+  }
+
+  return { dataUrl, mimeType, width, height, bytes: byteLength(dataUrl) };
+}
+
+/** Decode and preprocess in one step, for flows without a preview (e.g. batches). */
+export async function preprocessFile(file: File, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): Promise<PreprocessedImage> {
+  const bitmap = await decodeImageFile(file);
+  try {
+    return preprocessImage(bitmap, options);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  Sparkles, Palette, Pencil, Zap, PencilLine, LayoutGrid,
+  Brush, Feather, Flower, Leaf, Mountain, Waves,
+  Sun, Moon, Flame, Droplet, Camera, Star,
+  type LucideIcon,
+} from 'lucide-react';
+import type { StyleIconName } from '../shared/styles';
+
+// Styles are plain data shared with the server, so they refer to icons by name.
+export const STYLE_ICONS: Record<StyleIconName, LucideIcon> = {
+  'sparkles': Sparkles,
+  'palette': Palette,
+  'pencil': Pencil,
+  'zap': Zap,
+  'pencil-line': PencilLine,
+  'layout-grid': LayoutGrid,
+  'brush': Brush,
+  'feather': Feather,
+  'flower': Flower,
+  'leaf': Leaf,
+  'mountain': Mountain,
+  'waves': Waves,
+  'sun': Sun,
+  'moon': Moon,
+  'flame': Flame,
+  'droplet': Droplet,
+  'camera': Camera,
+  'star': Star,
+};
+
+export function styleIcon(name: string | undefined): LucideIcon {
+  return STYLE_ICONS[name as StyleIconName] ?? Sparkles;
+}
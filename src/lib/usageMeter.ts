@@ -0,0 +1,89 @@
+import { NO_LIMITS, quotaStatus, startOfUtcDay, type QuotaLimits, type QuotaStatus, type UsageEvent } from '../shared/usage';
+
+const EVENTS_KEY = 'artistic-studio.usage';
+const LIMITS_KEY = 'artistic-studio.usage-limits';
+const USER_ID_KEY = 'artistic-studio.user-id';
+
+// Enough for a month of heavy use; older events only feed the all-time total.
+const MAX_EVENTS = 2000;
+
+// Scripts (the CLI) run without localStorage and keep the meter in memory.
+const storage = typeof localStorage === 'undefined' ? null : localStorage;
+
+function read<T>(key: string, fallback: T): T {
+  try {
+    const stored = storage?.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function write(key: string, value: unknown) {
+  try {
+    storage?.setItem(key, JSON.stringify(value));
+  } catch {
+    // A full or blocked storage only costs us the persisted log.
+  }
+}
+
+let events: UsageEvent[] = read(EVENTS_KEY, []);
+let limits: QuotaLimits = { ...NO_LIMITS, ...read(LIMITS_KEY, {}) };
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/** A random id this browser sends so the server can apply per-user quotas. */
+export function getClientUserId(): string {
+  if (!storage) return 'script';
+  let id = storage.getItem(USER_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    storage.setItem(USER_ID_KEY, id);
+  }
+  return id;
+}
+
+export function getUsageEvents(): UsageEvent[] {
+  return events;
+}
+
+export function recordUsage(event: Omit<UsageEvent, 'createdAt'>) {
+  events = [...events, { ...event, createdAt: new Date().toISOString() }].slice(-MAX_EVENTS);
+  write(EVENTS_KEY, events);
+  notify();
+}
+
+export function clearUsage() {
+  events = [];
+  write(EVENTS_KEY, events);
+  notify();
+}
+
+/** Limits set in the usage panel. Only `daily` applies here; `perUser` is enforced by the server. */
+export function getClientLimits(): QuotaLimits {
+  return limits;
+}
+
+export function setClientLimits(next: QuotaLimits) {
+  limits = next;
+  write(LIMITS_KEY, limits);
+  notify();
+}
+
+export function todaysUsageEvents(now = new Date()): UsageEvent[] {
+  const since = startOfUtcDay(now).toISOString();
+  return events.filter((event) => event.createdAt >= since);
+}
+
+export function clientQuotaStatus(now = new Date()): QuotaStatus {
+  const used = todaysUsageEvents(now).length;
+  return quotaStatus({ ...limits, perUser: null }, { total: used, user: used }, now);
+}
+
+export function subscribeUsage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,64 @@
+import { ascii, concat } from './bytes';
+
+// Feature flags in the first byte of a `VP8X` chunk.
+export const VP8X_ANIMATION = 0b10;
+export const VP8X_XMP = 0b100;
+export const VP8X_ALPHA = 0b10000;
+
+export interface WebpChunk {
+  fourCC: string;
+  /** The whole chunk, header and padding included. */
+  bytes: Uint8Array;
+}
+
+export function writeChunk(fourCC: string, payload: Uint8Array): Uint8Array {
+  const padded = payload.length + (payload.length % 2);
+  const chunk = new Uint8Array(8 + padded);
+  chunk.set(ascii(fourCC), 0);
+  new DataView(chunk.buffer).setUint32(4, payload.length, true);
+  chunk.set(payload, 8);
+  return chunk;
+}
+
+export function uint24(target: Uint8Array, offset: number, value: number) {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+}
+
+/** The chunks of a WebP file, in order, after the `RIFF....WEBP` header. */
+export function readChunks(bytes: Uint8Array): WebpChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: WebpChunk[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const fourCC = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    chunks.push({ fourCC, bytes: bytes.subarray(offset, end) });
+    offset = end;
+  }
+  return chunks;
+}
+
+/** The image chunks (`ALPH`, `VP8 `, `VP8L`) of a still WebP, with their headers. */
+export function webpImageChunks(bytes: Uint8Array): Uint8Array {
+  const image = readChunks(bytes).filter(({ fourCC }) => fourCC === 'ALPH' || fourCC === 'VP8 ' || fourCC === 'VP8L');
+  return concat(image.map((chunk) => chunk.bytes));
+}
+
+/** A `VP8X` chunk for an extended-format file of the given size. */
+export function vp8xChunk(flags: number, width: number, height: number): Uint8Array {
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = flags;
+  uint24(vp8x, 4, width - 1);
+  uint24(vp8x, 7, height - 1);
+  return writeChunk('VP8X', vp8x);
+}
+
+/** Wraps already-written chunks in a `RIFF` header. */
+export function webpFile(chunks: Uint8Array[]): Blob {
+  const body = concat([ascii('WEBP'), ...chunks]);
+  const riff = concat([ascii('RIFF'), new Uint8Array(4), body]);
+  new DataView(riff.buffer).setUint32(4, body.length, true);
+  return new Blob([riff], { type: 'image/webp' });
+}
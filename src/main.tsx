@@ -1,10 +1,19 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import {I18nProvider} from './hooks/useI18n.tsx';
+import {ModelsProvider} from './hooks/useModels.tsx';
+import {StylesProvider} from './hooks/useStyles.tsx';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <I18nProvider>
+      <StylesProvider>
+        <ModelsProvider>
+          <App />
+        </ModelsProvider>
+      </StylesProvider>
+    </I18nProvider>
   </StrictMode>,
 );
@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { test, type TestContext } from 'node:test';
+import { GenerationError } from '../shared/errors';
+import { NO_LIMITS, USER_ID_HEADER, type QuotaLimits } from '../shared/usage';
+import { createApp } from './app';
+import { createBackendRegistry, createFakeBackend, createLocalFilterBackends, type ImageModelBackend } from './backends';
+import { openDatabase } from './db';
+import { createHistoryStore } from './history';
+import { encodePng } from './images';
+import { createStyleStore } from './styles';
+import { createUsageStore } from './usage';
+
+const PHOTO = encodePng({ width: 2, height: 2, data: new Uint8Array(16).fill(200) });
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+/** Serves the API on a free port with a throwaway database; closed when the test ends. */
+async function serve(t: TestContext, backends: ImageModelBackend[], limits: QuotaLimits = NO_LIMITS) {
+  const db = openDatabase(':memory:');
+  const app = createApp({
+    backends: createBackendRegistry(backends),
+    history: createHistoryStore(db),
+    styles: createStyleStore(db),
+    usage: createUsageStore(db, limits),
+  });
+  const server = await new Promise<ReturnType<typeof app.listen>>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  t.after(() => {
+    server.close();
+    db.close();
+  });
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}/api`;
+  return {
+    get: (path: string) => fetch(`${url}${path}`),
+    post: (path: string, body: unknown, headers: Record<string, string> = JSON_HEADERS) => fetch(`${url}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    }),
+  };
+}
+
+function failingBackend(error: Error): ImageModelBackend {
+  return { ...createFakeBackend(), name: 'failing', generateImage: async () => { throw error; } };
+}
+
+const styleRequest = { image: PHOTO.data, mimeType: PHOTO.mimeType, style: 'watercolor' };
+
+test('styles a photo with the fake backend and saves it to history', async (t) => {
+  const api = await serve(t, [createFakeBackend()]);
+  const response = await api.post('/transform/style', styleRequest);
+  assert.equal(response.status, 200);
+  const { image, generation } = await response.json();
+  assert.equal(image, `data:image/png;base64,${PHOTO.data}`);
+  assert.equal(generation.mode, 'style');
+  assert.equal(generation.style, 'watercolor');
+  assert.equal(generation.model, 'fake');
+
+  const { generations } = await (await api.get('/history')).json();
+  assert.deepEqual(generations.map((saved: { id: number }) => saved.id), [generation.id]);
+  const result = await api.get(`/history/${generation.id}/result`);
+  assert.equal(result.headers.get('content-type'), 'image/png');
+  assert.equal(Buffer.from(await result.arrayBuffer()).toString('base64'), PHOTO.data);
+});
+
+test('uses the model the request names', async (t) => {
+  const api = await serve(t, [createFakeBackend(), ...createLocalFilterBackends()]);
+  const response = await api.post('/transform/style', { ...styleRequest, model: 'local-edges' });
+  assert.equal(response.status, 200);
+  const { image, generation } = await response.json();
+  assert.equal(generation.model, 'local-edges');
+  assert.match(image, /^data:image\/png;base64,/);
+});
+
+test('answers invalid requests with 400 and invalid_input', async (t) => {
+  const api = await serve(t, [createFakeBackend()]);
+  for (const body of [{ ...styleRequest, style: 'nope' }, { ...styleRequest, image: '' }, { ...styleRequest, model: 'nope' }]) {
+    const response = await api.post('/transform/style', body);
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).code, 'invalid_input');
+  }
+  assert.equal((await api.get('/history/0/result')).status, 400);
+  assert.equal((await api.get('/history/99/result')).status, 404);
+});
+
+test('maps backend errors to their status and payload', async (t) => {
+  const api = await serve(t, [failingBackend(new GenerationError('rate_limited', 'Slow down.', { retryAfterMs: 1500 }))]);
+  const response = await api.post('/transform/style', styleRequest);
+  assert.equal(response.status, 429);
+  assert.equal(response.headers.get('retry-after'), '2');
+  assert.deepEqual(await response.json(), { error: 'Slow down.', code: 'rate_limited', retryAfterMs: 1500 });
+});
+
+test('hides unexpected errors behind a server_error', async (t) => {
+  t.mock.method(console, 'error', () => {});
+  const api = await serve(t, [failingBackend(new Error('database is on fire'))]);
+  const response = await api.post('/transform/style', styleRequest);
+  assert.equal(response.status, 500);
+  assert.deepEqual(await response.json(), { error: 'Something went wrong on the server.', code: 'server_error' });
+});
+
+test('refuses requests over the daily limit with quota_exceeded', async (t) => {
+  const api = await serve(t, [createFakeBackend()], { daily: 1, perUser: null });
+  assert.equal((await api.post('/transform/style', styleRequest)).status, 200);
+  const response = await api.post('/transform/style', styleRequest);
+  assert.equal(response.status, 429);
+  assert.equal((await response.json()).code, 'quota_exceeded');
+});
+
+test('refuses a user over their own limit while others carry on', async (t) => {
+  const api = await serve(t, [createFakeBackend()], { daily: null, perUser: 1 });
+  const as = (userId: string) => ({ ...JSON_HEADERS, [USER_ID_HEADER]: userId });
+  assert.equal((await api.post('/transform/style', styleRequest, as('ana'))).status, 200);
+  const refused = await api.post('/transform/style', styleRequest, as('ana'));
+  assert.equal(refused.status, 429);
+  assert.equal((await refused.json()).code, 'quota_exceeded');
+  assert.equal((await api.post('/transform/style', styleRequest, as('ben'))).status, 200);
+});
+
+test('meters failed calls against the quota', async (t) => {
+  const api = await serve(t, [failingBackend(new GenerationError('safety_blocked', 'Blocked.'))], { daily: 1, perUser: null });
+  assert.equal((await api.post('/transform/style', styleRequest)).status, 422);
+  assert.equal((await (await api.post('/transform/style', styleRequest)).json()).code, 'quota_exceeded');
+  const { today, quota } = await (await api.get('/usage')).json();
+  assert.equal(today.all.failures, 1);
+  assert.equal(quota.used.total, 1);
+});
+
+test('meters the fake backend at zero cost', async (t) => {
+  const api = await serve(t, [createFakeBackend()]);
+  const { usage } = await (await api.post('/transform/style', styleRequest)).json();
+  assert.deepEqual({ inputTokens: usage.inputTokens, outputTokens: usage.outputTokens }, { inputTokens: 0, outputTokens: 0 });
+  const { today } = await (await api.get('/usage')).json();
+  assert.equal(today.all.successes, 1);
+  assert.equal(today.all.costUsd, 0);
+});
+
+test('reports a masked result it cannot read as no_image instead of saving it', async (t) => {
+  const webp: ImageModelBackend = { ...createFakeBackend(), name: 'webp', generateImage: async () => ({ image: 'data:image/webp;base64,UklGRg==', usage: null }) };
+  const api = await serve(t, [webp]);
+  const response = await api.post('/transform/style', { ...styleRequest, mask: PHOTO.data });
+  assert.equal(response.status, 502);
+  assert.equal((await response.json()).code, 'no_image');
+  assert.deepEqual((await (await api.get('/history')).json()).generations, []);
+  const { today } = await (await api.get('/usage')).json();
+  assert.equal(today.all.requests, 1);
+  assert.equal(today.all.failures, 1);
+});
@@ -0,0 +1,65 @@
+import express, { type NextFunction, type Request, type Response } from 'express';
+import { ERROR_STATUS, GenerationError, isAbortError } from '../shared/errors';
+import type { BackendRegistry } from './backends';
+import type { HistoryStore } from './history';
+import { createHistoryRouter } from './routes/history';
+import { createModelsRouter } from './routes/models';
+import { createStylesRouter } from './routes/styles';
+import { createTransformRouter } from './routes/transform';
+import { createUsageRouter } from './routes/usage';
+import type { StyleStore } from './styles';
+import type { UsageStore } from './usage';
+import { ValidationError } from './validation';
+
+export interface AppDependencies {
+  backends: BackendRegistry;
+  history: HistoryStore;
+  styles: StyleStore;
+  usage: UsageStore;
+}
+
+/**
+ * Builds the API app around its model backends. The key-holding backends live
+ * here on the server; the browser only ever talks to `/api`.
+ */
+export function createApp({ backends, history, styles, usage }: AppDependencies) {
+  const app = express();
+  // Base64 inflates the 10MB image limit by a third. Outfit swaps can also carry
+  // garment photos, which the client downscales well below that limit.
+  app.use(express.json({ limit: '40mb' }));
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok', backend: backends.defaultModel });
+  });
+
+  app.use('/api/models', createModelsRouter(backends));
+  app.use('/api/transform', createTransformRouter(backends, history, styles, usage));
+  app.use('/api/history', createHistoryRouter(history));
+  app.use('/api/styles', createStylesRouter(styles));
+  app.use('/api/usage', createUsageRouter(usage));
+
+  app.use('/api', (error: any, _req: Request, res: Response, _next: NextFunction) => {
+    // The client cancelled and is no longer listening.
+    if (isAbortError(error)) {
+      res.status(499).end();
+      return;
+    }
+    if (error instanceof ValidationError) {
+      res.status(ERROR_STATUS.invalid_input).json({ error: error.message, code: 'invalid_input' });
+      return;
+    }
+    if (error instanceof GenerationError) {
+      if (error.retryAfterMs) res.set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+      res.status(ERROR_STATUS[error.code]).json(error.toPayload());
+      return;
+    }
+    if (error?.type === 'entity.too.large') {
+      res.status(413).json({ error: 'The request is too large.', code: 'invalid_input' });
+      return;
+    }
+    console.error("Error handling request:", error);
+    res.status(ERROR_STATUS.server_error).json({ error: 'Something went wrong on the server.', code: 'server_error' });
+  });
+
+  return app;
+}
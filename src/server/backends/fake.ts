@@ -0,0 +1,19 @@
+import type { ImageGenerationRequest, ImageModelBackend } from './types';
+
+/**
+ * Offline backend that echoes the input image back. Lets the server and its
+ * clients be exercised without network access or an API key. It bills no
+ * tokens, so its calls are metered at zero cost.
+ */
+export function createFakeBackend(): ImageModelBackend {
+  return {
+    name: 'fake',
+    label: 'Fake (echo)',
+    provider: 'fake',
+    description: 'Returns the uploaded photo unchanged.',
+    async generateImage({ image, signal }: ImageGenerationRequest) {
+      signal?.throwIfAborted();
+      return { image: `data:${image.mimeType};base64,${image.data}`, usage: { inputTokens: 0, outputTokens: 0 } };
+    },
+  };
+}
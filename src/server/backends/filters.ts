@@ -0,0 +1,133 @@
+/** RGBA pixels, four bytes per pixel, row by row — the layout of a canvas `ImageData`. */
+export interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export type PixelFilter = (pixels: Pixels) => Pixels;
+
+function blank({ width, height }: Pixels): Pixels {
+  return { width, height, data: new Uint8Array(width * height * 4) };
+}
+
+function luminance(data: Uint8Array, offset: number) {
+  return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+}
+
+/** Rounds every channel to one of `levels` values, like a screen print with few inks. */
+export function posterize(pixels: Pixels, levels = 4): Pixels {
+  const result = blank(pixels);
+  const step = 255 / (levels - 1);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      result.data[i + channel] = Math.round(Math.round(pixels.data[i + channel] / step) * step);
+    }
+    result.data[i + 3] = pixels.data[i + 3];
+  }
+  return result;
+}
+
+/** Sobel edge magnitude, drawn as dark lines on white paper. */
+export function detectEdges(pixels: Pixels): Pixels {
+  const { width, height, data } = pixels;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = luminance(data, i * 4);
+  }
+  const at = (x: number, y: number) => gray[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  const result = blank(pixels);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      const ink = 255 - Math.min(255, Math.hypot(gx, gy));
+      const offset = (y * width + x) * 4;
+      result.data[offset] = result.data[offset + 1] = result.data[offset + 2] = ink;
+      result.data[offset + 3] = data[offset + 3];
+    }
+  }
+  return result;
+}
+
+/**
+ * Newspaper-style halftone: the image is cut into square cells and each cell
+ * becomes one black dot whose area matches the cell's darkness.
+ */
+export function halftone(pixels: Pixels, cellSize = Math.max(4, Math.round(Math.min(pixels.width, pixels.height) / 120))): Pixels {
+  const { width, height, data } = pixels;
+  const result = blank(pixels);
+  result.data.fill(255);
+
+  for (let top = 0; top < height; top += cellSize) {
+    for (let left = 0; left < width; left += cellSize) {
+      const bottom = Math.min(height, top + cellSize);
+      const right = Math.min(width, left + cellSize);
+      let total = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          total += luminance(data, (y * width + x) * 4);
+        }
+      }
+      const darkness = 1 - total / ((bottom - top) * (right - left) * 255);
+      // A dot of this radius covers `darkness` of the cell's area.
+      const radius = cellSize * Math.sqrt(darkness / Math.PI);
+      const centerX = (left + right) / 2;
+      const centerY = (top + bottom) / 2;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          if (Math.hypot(x + 0.5 - centerX, y + 0.5 - centerY) <= radius) {
+            const offset = (y * width + x) * 4;
+            result.data[offset] = result.data[offset + 1] = result.data[offset + 2] = 0;
+          }
+        }
+      }
+    }
+  }
+  for (let i = 3; i < data.length; i += 4) {
+    result.data[i] = data[i];
+  }
+  return result;
+}
+
+/** Keeps `filtered` where `mask` is white and `original` where it is black, blending in between. */
+export function applyMask(original: Pixels, filtered: Pixels, mask: Pixels): Pixels {
+  const result = blank(original);
+  for (let i = 0; i < original.data.length; i += 4) {
+    const weight = luminance(mask.data, i) / 255;
+    for (let channel = 0; channel < 4; channel++) {
+      result.data[i + channel] = Math.round(filtered.data[i + channel] * weight + original.data[i + channel] * (1 - weight));
+    }
+  }
+  return result;
+}
+
+/** Bilinear resample to `width` × `height`, e.g. to line a model's output up with the photo it came from. */
+export function resize(pixels: Pixels, width: number, height: number): Pixels {
+  if (pixels.width === width && pixels.height === height) return pixels;
+  const { data } = pixels;
+  const result: Pixels = { width, height, data: new Uint8Array(width * height * 4) };
+  const scaleX = pixels.width / width;
+  const scaleY = pixels.height / height;
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(pixels.height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+    const top = Math.floor(sourceY);
+    const bottom = Math.min(pixels.height - 1, top + 1);
+    const dy = sourceY - top;
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(pixels.width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+      const left = Math.floor(sourceX);
+      const right = Math.min(pixels.width - 1, left + 1);
+      const dx = sourceX - left;
+      const offset = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const at = (px: number, py: number) => data[(py * pixels.width + px) * 4 + channel];
+        const upper = at(left, top) * (1 - dx) + at(right, top) * dx;
+        const lower = at(left, bottom) * (1 - dx) + at(right, bottom) * dx;
+        result.data[offset + channel] = Math.round(upper * (1 - dy) + lower * dy);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,52 @@
+import { GoogleGenAI } from "@google/genai";
+import { DEFAULT_GEMINI_IMAGE_MODEL } from '../../shared/models';
+import { classifyGeminiError, parseImageResponse, parseUsage } from './geminiResponse';
+import type { ImageGenerationRequest, ImageModelBackend } from './types';
+
+/** `gemini-2.5-flash-image` → `Gemini 2.5 Flash Image`. */
+function labelForModel(model: string) {
+  return model.split('-').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * One backend per Gemini image model, sharing a client that is only created
+ * when the first request needs it.
+ */
+export function createGeminiBackends(apiKey: string, models: string[] = [DEFAULT_GEMINI_IMAGE_MODEL]): ImageModelBackend[] {
+  let ai: GoogleGenAI | null = null;
+  const client = () => (ai ??= new GoogleGenAI({ apiKey }));
+
+  return models.map((model) => ({
+    name: model,
+    label: labelForModel(model),
+    provider: 'gemini',
+    description: 'Google Gemini image model. Needs network access and is billed per image.',
+    async generateImage({ image, prompt, mask, references = [], seed, signal }: ImageGenerationRequest) {
+      const response = await client().models.generateContent({
+        model,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                data: image.data,
+                mimeType: image.mimeType,
+              },
+            },
+            ...(mask ? [{ inlineData: { data: mask.data, mimeType: mask.mimeType } }] : []),
+            ...references.map((reference) => ({ inlineData: { data: reference.data, mimeType: reference.mimeType } })),
+            {
+              text: prompt,
+            },
+          ],
+        },
+        // Aborting only stops the wait; a request Gemini already received is still billed.
+        config: { abortSignal: signal, ...(seed === undefined ? {} : { seed }) },
+      }).catch((error) => {
+        if (signal?.aborted) throw error;
+        throw classifyGeminiError(error);
+      });
+
+      return { image: parseImageResponse(response), usage: parseUsage(response) };
+    },
+  }));
+}
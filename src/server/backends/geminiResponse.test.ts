@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { test } from 'node:test';
+import { ApiError } from '@google/genai';
+import { GenerationError } from '../../shared/errors';
+import { classifyGeminiError, parseImageResponse, parseUsage } from './geminiResponse';
+
+function fixture(name: string) {
+  return JSON.parse(fs.readFileSync(path.join(import.meta.dirname, 'fixtures/gemini', `${name}.json`), 'utf8'));
+}
+
+function generationError(run: () => unknown): GenerationError {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof GenerationError, `expected a GenerationError, got ${error}`);
+    return error;
+  }
+  assert.fail('expected a GenerationError');
+}
+
+test('returns the image part as a data URL', () => {
+  const response = fixture('image');
+  assert.equal(
+    parseImageResponse(response),
+    `data:image/png;base64,${response.candidates[0].content.parts[1].inlineData.data}`,
+  );
+});
+
+test('reports billed tokens from the usage metadata', () => {
+  assert.deepEqual(parseUsage(fixture('image')), { inputTokens: 1302, outputTokens: 1290 });
+  // Thinking tokens are billed as output.
+  assert.deepEqual(parseUsage(fixture('text-refusal')), { inputTokens: 1302, outputTokens: 129 });
+  assert.equal(parseUsage({}), null);
+});
+
+test('explains a text-only answer as no_image with the model text as the reason', () => {
+  const error = generationError(() => parseImageResponse(fixture('text-refusal')));
+  assert.equal(error.code, 'no_image');
+  assert.match(error.reason ?? '', /identity document/);
+  assert.equal(error.retryable, false);
+});
+
+test('classifies a withheld image as safety_blocked', () => {
+  const error = generationError(() => parseImageResponse(fixture('safety-block')));
+  assert.equal(error.code, 'safety_blocked');
+  assert.match(error.reason ?? '', /Prohibited Use policy/);
+});
+
+test('classifies a blocked prompt as safety_blocked', () => {
+  const error = generationError(() => parseImageResponse(fixture('prompt-blocked')));
+  assert.equal(error.code, 'safety_blocked');
+  assert.equal(error.reason, 'PROHIBITED_CONTENT');
+});
+
+test('turns a 429 into a retryable rate_limited error with the delay Gemini asks for', () => {
+  // The SDK puts the JSON error body in the message.
+  const error = classifyGeminiError(new ApiError({ status: 429, message: JSON.stringify(fixture('rate-limited')) }));
+  assert.ok(error instanceof GenerationError);
+  assert.equal(error.code, 'rate_limited');
+  assert.equal(error.retryable, true);
+  assert.equal(error.retryAfterMs, 23_000);
+});
+
+test('leaves the delay to the client when a 429 carries no retry info', () => {
+  const error = classifyGeminiError(new ApiError({ status: 429, message: 'Too Many Requests' }));
+  assert.ok(error instanceof GenerationError);
+  assert.equal(error.retryAfterMs, undefined);
+});
+
+test('does not retry key and model errors', () => {
+  for (const status of [401, 403, 404]) {
+    const error = classifyGeminiError(new ApiError({ status, message: '{}' }));
+    assert.ok(error instanceof GenerationError);
+    assert.equal(error.code, 'model_error');
+    assert.equal(error.retryable, false);
+  }
+});
+
+test('treats server errors and failed connections as network errors', () => {
+  const unavailable = classifyGeminiError(new ApiError({ status: 503, message: '{}' }));
+  assert.ok(unavailable instanceof GenerationError && unavailable.code === 'network');
+  const offline = classifyGeminiError(new TypeError('fetch failed'));
+  assert.ok(offline instanceof GenerationError && offline.code === 'network');
+});
@@ -0,0 +1,104 @@
+import { ApiError, type GenerateContentResponse } from "@google/genai";
+import { GenerationError } from '../../shared/errors';
+import type { TokenUsage } from '../../shared/pricing';
+
+// Finish reasons that mean the output was withheld rather than never produced.
+const BLOCKING_FINISH_REASONS = new Set([
+  'SAFETY',
+  'IMAGE_SAFETY',
+  'PROHIBITED_CONTENT',
+  'IMAGE_PROHIBITED_CONTENT',
+  'BLOCKLIST',
+  'SPII',
+  'RECITATION',
+]);
+
+/**
+ * Pulls the generated image out of a `generateContent` response as a data URL.
+ * A pure function of the response JSON, so recorded responses can be replayed
+ * against it. Throws a `GenerationError` explaining why there is no image.
+ */
+export function parseImageResponse(response: Pick<GenerateContentResponse, 'candidates' | 'promptFeedback'>): string {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError('safety_blocked', 'The prompt was blocked.', {
+      reason: response.promptFeedback?.blockReasonMessage || blockReason,
+    });
+  }
+
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts || [];
+  for (const part of parts) {
+    if (part.inlineData?.data) {
+      return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+  }
+
+  const finishReason = candidate?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) {
+    throw new GenerationError('safety_blocked', 'The generated image was blocked.', {
+      reason: candidate?.finishMessage || finishReason,
+    });
+  }
+  // Without an image the model usually says why in a text part.
+  const text = parts.map((part) => part.text?.trim()).filter(Boolean).join(' ');
+  throw new GenerationError('no_image', 'The model returned no image.', { reason: text || candidate?.finishMessage || undefined });
+}
+
+/** Billed tokens from the response's `usageMetadata`, or null when it has none. */
+export function parseUsage(response: Pick<GenerateContentResponse, 'usageMetadata'>): TokenUsage | null {
+  const metadata = response.usageMetadata;
+  if (!metadata) return null;
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    // Thinking tokens are billed at the output rate.
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  };
+}
+
+/**
+ * The wait Gemini asks for before retrying a 429, in milliseconds. The SDK puts
+ * the error body in the message; the delay is in its `RetryInfo` detail.
+ */
+function parseRetryDelay(error: ApiError): number | undefined {
+  try {
+    const details = JSON.parse(error.message)?.error?.details;
+    const retryInfo = Array.isArray(details)
+      ? details.find((detail) => String(detail?.['@type']).endsWith('google.rpc.RetryInfo'))
+      : undefined;
+    const seconds = parseFloat(retryInfo?.retryDelay);
+    return seconds > 0 ? Math.round(seconds * 1000) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Maps SDK and transport failures onto the shared error codes. */
+export function classifyGeminiError(error: unknown): unknown {
+  if (error instanceof GenerationError) {
+    return error;
+  }
+  if (error instanceof ApiError) {
+    if (error.status === 429) {
+      return new GenerationError('rate_limited', 'The image model is rate limited.', { retryAfterMs: parseRetryDelay(error) });
+    }
+    if (error.status === 400) {
+      return new GenerationError('invalid_input', 'The image model rejected the request.', { reason: error.message });
+    }
+    if (error.status === 401 || error.status === 403) {
+      return new GenerationError('model_error', "The image model didn't accept the server's API key.", { reason: error.message });
+    }
+    if (error.status === 404) {
+      return new GenerationError('model_error', "The image model wasn't found. It may be misspelled or retired.", { reason: error.message });
+    }
+    if (error.status >= 500) {
+      return new GenerationError('network', 'The image model is unavailable.');
+    }
+    return new GenerationError('model_error', `The image model answered with status ${error.status}.`, { reason: error.message });
+  }
+  // fetch() reports DNS, connection and TLS failures as a bare TypeError.
+  if (error instanceof TypeError) {
+    return new GenerationError('network', 'Could not reach the image model.');
+  }
+  return error;
+}
@@ -0,0 +1,55 @@
+import { DEFAULT_GEMINI_IMAGE_MODEL, type ModelCatalog, type ModelInfo } from '../../shared/models';
+import { createFakeBackend } from './fake';
+import { createGeminiBackends } from './gemini';
+import { createLocalFilterBackends } from './local';
+import type { ImageModelBackend } from './types';
+
+export type { ImageGenerationRequest, ImageGenerationResult, ImageModelBackend, InlineImage } from './types';
+export { createFakeBackend, createGeminiBackends, createLocalFilterBackends };
+
+export type BackendRegistry = ReturnType<typeof createBackendRegistry>;
+
+/** The models a server offers, looked up by id. The first one is the default unless named. */
+export function createBackendRegistry(backends: ImageModelBackend[], defaultModel = backends[0]?.name) {
+  const byName = new Map(backends.map((backend) => [backend.name, backend]));
+  if (!byName.has(defaultModel)) {
+    throw new Error(`Unknown default model "${defaultModel}".`);
+  }
+
+  return {
+    defaultModel,
+
+    get(name: string): ImageModelBackend | undefined {
+      return byName.get(name);
+    },
+
+    catalog(): ModelCatalog {
+      const models = backends.map(({ name, label, provider, description }): ModelInfo => ({ id: name, label, provider, description }));
+      return { models, defaultModel };
+    },
+  };
+}
+
+/**
+ * Picks the models from `IMAGE_BACKEND`: `gemini` (the default) offers the
+ * models in `GEMINI_IMAGE_MODELS`, `fake` an echo backend, `local` only the
+ * offline filters. The local filters are always offered alongside.
+ */
+export function createBackendsFromEnv(env: NodeJS.ProcessEnv = process.env): BackendRegistry {
+  const kind = env.IMAGE_BACKEND || 'gemini';
+  const local = createLocalFilterBackends();
+  if (kind === 'fake') {
+    return createBackendRegistry([createFakeBackend(), ...local]);
+  }
+  if (kind === 'local') {
+    return createBackendRegistry(local);
+  }
+  if (kind === 'gemini') {
+    if (!env.GEMINI_API_KEY) {
+      throw new Error('GEMINI_API_KEY is not set. Add it to .env.local or set IMAGE_BACKEND=local or fake.');
+    }
+    const models = (env.GEMINI_IMAGE_MODELS || DEFAULT_GEMINI_IMAGE_MODEL).split(',').map((model) => model.trim()).filter(Boolean);
+    return createBackendRegistry([...createGeminiBackends(env.GEMINI_API_KEY, models), ...local]);
+  }
+  throw new Error(`Unknown IMAGE_BACKEND "${kind}". Expected "gemini", "local" or "fake".`);
+}
@@ -0,0 +1,33 @@
+import { GenerationError } from '../../shared/errors';
+import { toDataUrl } from '../../shared/dataUrl';
+import { canDecode, decodeImage, encodePng } from '../images';
+import { detectEdges, halftone, posterize, type PixelFilter } from './filters';
+import type { ImageGenerationRequest, ImageModelBackend } from './types';
+
+const LOCAL_FILTERS: { name: string; label: string; description: string; filter: PixelFilter }[] = [
+  { name: 'local-posterize', label: 'Posterize (local)', description: 'Flattens colors into a few bold bands.', filter: (pixels) => posterize(pixels) },
+  { name: 'local-edges', label: 'Edge Detect (local)', description: 'Traces outlines as dark lines on white.', filter: detectEdges },
+  { name: 'local-halftone', label: 'Halftone (local)', description: 'Redraws the photo as newspaper print dots.', filter: (pixels) => halftone(pixels) },
+];
+
+/**
+ * Deterministic backends that run a pixel filter instead of a model, so the
+ * app can be developed, demoed and tested offline. The prompt, references and
+ * seed are ignored; like every backend's, their result is put back through
+ * the request's mask by the transform route.
+ */
+export function createLocalFilterBackends(): ImageModelBackend[] {
+  return LOCAL_FILTERS.map(({ name, label, description, filter }) => ({
+    name,
+    label,
+    provider: 'local',
+    description,
+    async generateImage({ image, signal }: ImageGenerationRequest) {
+      signal?.throwIfAborted();
+      if (!canDecode(image)) {
+        throw new GenerationError('invalid_input', 'The local filters can only read JPEG and PNG images.');
+      }
+      return { image: toDataUrl(encodePng(filter(decodeImage(image)))), usage: { inputTokens: 0, outputTokens: 0 } };
+    },
+  }));
+}
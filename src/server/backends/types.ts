@@ -0,0 +1,41 @@
+import type { ModelInfo } from '../../shared/models';
+import type { TokenUsage } from '../../shared/pricing';
+
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface ImageGenerationRequest {
+  image: InlineImage;
+  prompt: string;
+  /** Black-and-white PNG the same shape as `image`; white marks the region to change. */
+  mask?: InlineImage;
+  /** Further images the prompt refers to, such as garment photos. Sent after the mask. */
+  references?: InlineImage[];
+  /** Makes sampling repeatable where the model supports it. */
+  seed?: number;
+  /** Fires when the client has gone away; backends stop waiting and reject with an AbortError. */
+  signal?: AbortSignal;
+}
+
+export interface ImageGenerationResult {
+  /** Data URL of the generated image. */
+  image: string;
+  /** Tokens the model reports having billed, or null when it reports none. */
+  usage: TokenUsage | null;
+}
+
+/**
+ * A model that turns an input image plus a text prompt into a new image.
+ * Resolves to null when the model produced no image. Failures the client
+ * should tell apart are thrown as a `GenerationError`. `name` is the model id
+ * requests select it by, and what history and usage record.
+ */
+export interface ImageModelBackend {
+  readonly name: string;
+  readonly label: string;
+  readonly provider: ModelInfo['provider'];
+  readonly description: string;
+  generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult | null>;
+}
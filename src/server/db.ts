@@ -0,0 +1,74 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export type StudioDatabase = Database.Database;
+
+// Each entry runs once, in order; `PRAGMA user_version` records how many have been applied.
+const MIGRATIONS: string[] = [
+  `CREATE TABLE generations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    mode TEXT NOT NULL,
+    style TEXT,
+    outfit_prompt TEXT,
+    model TEXT NOT NULL,
+    original_mime TEXT NOT NULL,
+    original_image BLOB NOT NULL,
+    result_mime TEXT NOT NULL,
+    result_image BLOB NOT NULL,
+    created_at TEXT NOT NULL,
+    duration_ms INTEGER NOT NULL
+  );
+  CREATE INDEX generations_created_at ON generations (created_at);`,
+  `CREATE TABLE custom_styles (
+    id TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    icon TEXT NOT NULL,
+    description TEXT NOT NULL,
+    prompt_template TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );`,
+  `ALTER TABLE generations ADD COLUMN parameters TEXT;`,
+  `ALTER TABLE generations ADD COLUMN instruction TEXT;`,
+  `ALTER TABLE generations ADD COLUMN prompt TEXT;
+  ALTER TABLE generations ADD COLUMN seed INTEGER;
+  ALTER TABLE generations ADD COLUMN favorite INTEGER NOT NULL DEFAULT 0;`,
+  `CREATE TABLE usage_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    model TEXT,
+    outcome TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    latency_ms INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX usage_events_created_at ON usage_events (created_at);`,
+  `ALTER TABLE generations ADD COLUMN clip_frame INTEGER NOT NULL DEFAULT 0;`,
+];
+
+function migrate(db: StudioDatabase) {
+  const applied = db.pragma('user_version', { simple: true }) as number;
+  for (let version = applied; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+/**
+ * Opens (and migrates) the studio database. Pass `:memory:` for a throwaway
+ * database, e.g. in tests.
+ */
+export function openDatabase(filename: string): StudioDatabase {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  migrate(db);
+  return db;
+}
@@ -0,0 +1,147 @@
+import type { GenerationRecord, HistoryFilters } from '../shared/history';
+import type { StyleParameters } from '../shared/parameters';
+import type { StyleId, TransformMode } from '../shared/styles';
+import type { InlineImage } from './backends';
+import type { StudioDatabase } from './db';
+
+export interface NewGeneration {
+  mode: TransformMode;
+  style: StyleId | null;
+  outfitPrompt: string | null;
+  instruction: string | null;
+  parameters: StyleParameters | null;
+  clipFrame: boolean;
+  prompt: string;
+  seed: number | null;
+  model: string;
+  original: InlineImage;
+  result: InlineImage;
+  durationMs: number;
+}
+
+export interface StoredImage {
+  mimeType: string;
+  data: Buffer;
+}
+
+interface GenerationRow {
+  id: number;
+  mode: TransformMode;
+  style: StyleId | null;
+  outfit_prompt: string | null;
+  instruction: string | null;
+  parameters: string | null;
+  prompt: string | null;
+  seed: number | null;
+  favorite: number;
+  clip_frame: number;
+  model: string;
+  original_mime: string;
+  result_mime: string;
+  created_at: string;
+  duration_ms: number;
+}
+
+const RECORD_COLUMNS = 'id, mode, style, outfit_prompt, instruction, parameters, prompt, seed, favorite, clip_frame, model, original_mime, result_mime, created_at, duration_ms';
+
+function toRecord(row: GenerationRow): GenerationRecord {
+  return {
+    id: row.id,
+    mode: row.mode,
+    style: row.style,
+    outfitPrompt: row.outfit_prompt,
+    instruction: row.instruction,
+    parameters: row.parameters ? JSON.parse(row.parameters) : null,
+    prompt: row.prompt,
+    seed: row.seed,
+    favorite: row.favorite === 1,
+    clipFrame: row.clip_frame === 1,
+    model: row.model,
+    originalMimeType: row.original_mime,
+    resultMimeType: row.result_mime,
+    createdAt: row.created_at,
+    durationMs: row.duration_ms,
+  };
+}
+
+export type HistoryStore = ReturnType<typeof createHistoryStore>;
+
+export function createHistoryStore(db: StudioDatabase) {
+  const insert = db.prepare(`
+    INSERT INTO generations (mode, style, outfit_prompt, instruction, parameters, prompt, seed, clip_frame, model, original_mime, original_image, result_mime, result_image, created_at, duration_ms)
+    VALUES (@mode, @style, @outfitPrompt, @instruction, @parameters, @prompt, @seed, @clipFrame, @model, @originalMime, @originalImage, @resultMime, @resultImage, @createdAt, @durationMs)
+  `);
+  const selectOne = db.prepare(`SELECT ${RECORD_COLUMNS} FROM generations WHERE id = ?`);
+  const selectOriginal = db.prepare('SELECT original_mime AS mimeType, original_image AS data FROM generations WHERE id = ?');
+  const selectResult = db.prepare('SELECT result_mime AS mimeType, result_image AS data FROM generations WHERE id = ?');
+  const updateFavorite = db.prepare('UPDATE generations SET favorite = ? WHERE id = ?');
+  const remove = db.prepare('DELETE FROM generations WHERE id = ?');
+
+  return {
+    add(generation: NewGeneration): GenerationRecord {
+      const { lastInsertRowid } = insert.run({
+        mode: generation.mode,
+        style: generation.style,
+        outfitPrompt: generation.outfitPrompt,
+        instruction: generation.instruction,
+        parameters: generation.parameters ? JSON.stringify(generation.parameters) : null,
+        prompt: generation.prompt,
+        seed: generation.seed,
+        clipFrame: generation.clipFrame ? 1 : 0,
+        model: generation.model,
+        originalMime: generation.original.mimeType,
+        originalImage: Buffer.from(generation.original.data, 'base64'),
+        resultMime: generation.result.mimeType,
+        resultImage: Buffer.from(generation.result.data, 'base64'),
+        createdAt: new Date().toISOString(),
+        durationMs: Math.round(generation.durationMs),
+      });
+      return toRecord(selectOne.get(lastInsertRowid) as GenerationRow);
+    },
+
+    list(filters: HistoryFilters = {}): GenerationRecord[] {
+      const clauses: string[] = [];
+      const params: Record<string, string> = {};
+      if (filters.mode) {
+        clauses.push('mode = @mode');
+        params.mode = filters.mode;
+      }
+      if (filters.style) {
+        clauses.push('style = @style');
+        params.style = filters.style;
+      }
+      if (filters.search) {
+        clauses.push("(outfit_prompt LIKE @search ESCAPE '\\' OR instruction LIKE @search ESCAPE '\\')");
+        params.search = `%${filters.search.replace(/[\\%_]/g, '\\$&')}%`;
+      }
+      if (filters.favorite) {
+        clauses.push('favorite = 1');
+      }
+      if (!filters.clipFrames) {
+        clauses.push('clip_frame = 0');
+      }
+      const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+      const rows = db.prepare(`SELECT ${RECORD_COLUMNS} FROM generations ${where} ORDER BY created_at DESC, id DESC`).all(params);
+      return (rows as GenerationRow[]).map(toRecord);
+    },
+
+    get(id: number): GenerationRecord | null {
+      const row = selectOne.get(id) as GenerationRow | undefined;
+      return row ? toRecord(row) : null;
+    },
+
+    getImage(id: number, which: 'original' | 'result'): StoredImage | null {
+      const row = (which === 'original' ? selectOriginal : selectResult).get(id) as StoredImage | undefined;
+      return row ?? null;
+    },
+
+    setFavorite(id: number, favorite: boolean): GenerationRecord | null {
+      if (updateFavorite.run(favorite ? 1 : 0, id).changes === 0) return null;
+      return toRecord(selectOne.get(id) as GenerationRow);
+    },
+
+    delete(id: number): boolean {
+      return remove.run(id).changes > 0;
+    },
+  };
+}
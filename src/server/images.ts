@@ -0,0 +1,42 @@
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import type { InlineImage } from './backends/types';
+import { applyMask, resize, type Pixels } from './backends/filters';
+
+/** The formats the server can read pixels from. Anything else only passes through to the model. */
+export const DECODABLE_MIME_TYPES = ['image/png', 'image/jpeg'];
+
+export function canDecode(image: InlineImage) {
+  return DECODABLE_MIME_TYPES.includes(image.mimeType);
+}
+
+export function decodeImage(image: InlineImage): Pixels {
+  const bytes = Buffer.from(image.data, 'base64');
+  if (image.mimeType === 'image/png') {
+    const { width, height, data } = PNG.sync.read(bytes);
+    return { width, height, data };
+  }
+  if (image.mimeType === 'image/jpeg') {
+    const { width, height, data } = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 512 });
+    return { width, height, data };
+  }
+  throw new Error(`Can't decode ${image.mimeType} images.`);
+}
+
+export function encodePng({ width, height, data }: Pixels): InlineImage {
+  const png = new PNG({ width, height });
+  png.data = Buffer.from(data);
+  return { mimeType: 'image/png', data: PNG.sync.write(png).toString('base64') };
+}
+
+/**
+ * Puts the generated image back onto the original through the mask, so every
+ * pixel outside the painted region is exactly the original pixel. The result
+ * and mask are scaled to the original's size first, since models often answer
+ * at a resolution of their own.
+ */
+export function compositeWithMask(original: InlineImage, result: InlineImage, mask: InlineImage): InlineImage {
+  const base = decodeImage(original);
+  const { width, height } = base;
+  return encodePng(applyMask(base, resize(decodeImage(result), width, height), resize(decodeImage(mask), width, height)));
+}
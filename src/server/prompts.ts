@@ -0,0 +1,30 @@
+import { describeParameters, describeStrength, describePalette, DEFAULT_STYLE_PARAMETERS, type StyleParameters } from '../shared/parameters';
+import { renderPromptTemplate, type ArtisticStyle } from '../shared/styles';
+
+export function buildStylePrompt(style: ArtisticStyle, parameters: StyleParameters = DEFAULT_STYLE_PARAMETERS): string {
+  const prompt = renderPromptTemplate(style.promptTemplate, {
+    intensity: describeStrength(parameters.strength),
+    palette: parameters.palette ? describePalette(parameters.palette) : undefined,
+  });
+  return [prompt, ...describeParameters(parameters)].join(' ');
+}
+
+export const MASK_PROMPT = 'The second image is a mask with the same framing as the first. Only change the areas that are white in the mask; keep everything in the black areas exactly as it is.';
+
+export const REFERENCE_FRAME_PROMPT = 'The last image is an already transformed frame from the same clip. Match its style, colors, textures and level of detail exactly, so that the frames look consistent when played in sequence.';
+
+export function buildRefinePrompt(instruction: string): string {
+  return `Edit this image according to the following instruction: ${instruction}. Keep everything else about the image, including the composition, the subject's identity, the artistic style and the colors, unchanged.`;
+}
+
+export function buildOutfitPrompt(outfitDescription: string, garmentCount = 0): string {
+  if (garmentCount === 0) {
+    return `Please swap the outfit of the person in this image with the following description: ${outfitDescription}. Keep the person's identity, pose, and background as consistent as possible. Only change the clothing.`;
+  }
+  // Garment photos are the last parts before the text, after the person (and any mask).
+  const garments = garmentCount === 1
+    ? 'The last image is a product photo of a garment.'
+    : `The last ${garmentCount} images are product photos of garments.`;
+  const details = outfitDescription ? ` Additional details: ${outfitDescription}.` : '';
+  return `The first image shows a person. ${garments} Dress the person in ${garmentCount === 1 ? 'this garment' : 'these garments'}, matching their color, pattern, material and cut as closely as possible.${details} Keep the person's identity, pose, and background as consistent as possible. Only change the clothing.`;
+}
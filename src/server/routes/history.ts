@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import type { HistoryFilters } from '../../shared/history';
+import type { HistoryStore } from '../history';
+import { parseFavorite, ValidationError } from '../validation';
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ValidationError(`Invalid generation id "${value}".`);
+  }
+  return id;
+}
+
+function parseFilters(query: Record<string, unknown>): HistoryFilters {
+  const filters: HistoryFilters = {};
+  if (query.mode === 'style' || query.mode === 'outfit' || query.mode === 'refine') {
+    filters.mode = query.mode;
+  }
+  if (typeof query.style === 'string' && query.style) {
+    filters.style = query.style;
+  }
+  if (typeof query.q === 'string' && query.q.trim()) {
+    filters.search = query.q.trim();
+  }
+  if (query.favorite === '1') {
+    filters.favorite = true;
+  }
+  if (query.clipFrames === '1') {
+    filters.clipFrames = true;
+  }
+  return filters;
+}
+
+export function createHistoryRouter(history: HistoryStore) {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.json({ generations: history.list(parseFilters(req.query)) });
+  });
+
+  router.get('/:id/:which(original|result)', (req, res, next) => {
+    try {
+      const image = history.getImage(parseId(req.params.id), req.params.which as 'original' | 'result');
+      if (!image) {
+        res.status(404).json({ error: 'Generation not found.' });
+        return;
+      }
+      res.type(image.mimeType).set('Cache-Control', 'private, max-age=31536000, immutable').send(image.data);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.patch('/:id', (req, res, next) => {
+    try {
+      const generation = history.setFavorite(parseId(req.params.id), parseFavorite(req.body));
+      if (!generation) {
+        res.status(404).json({ error: 'Generation not found.' });
+        return;
+      }
+      res.json({ generation });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete('/:id', (req, res, next) => {
+    try {
+      if (!history.delete(parseId(req.params.id))) {
+        res.status(404).json({ error: 'Generation not found.' });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
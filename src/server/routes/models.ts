@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import type { BackendRegistry } from '../backends';
+
+export function createModelsRouter(backends: BackendRegistry) {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json(backends.catalog());
+  });
+
+  return router;
+}
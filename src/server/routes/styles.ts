@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { StyleConflictError, type StyleStore } from '../styles';
+import { parseStyleInput, parseStylePack } from '../validation';
+
+export function createStylesRouter(styles: StyleStore) {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json({ styles: styles.list() });
+  });
+
+  router.post('/', (req, res, next) => {
+    try {
+      res.status(201).json({ style: styles.create(parseStyleInput(req.body)) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Pass `?replace=true` to overwrite custom styles that share an id with the pack.
+  router.post('/import', (req, res, next) => {
+    try {
+      res.json(styles.importStyles(parseStylePack(req.body), req.query.replace === 'true'));
+    } catch (error) {
+      if (error instanceof StyleConflictError) {
+        res.status(409).json({ error: error.message, conflicts: error.conflicts });
+        return;
+      }
+      next(error);
+    }
+  });
+
+  router.put('/:id', (req, res, next) => {
+    try {
+      const style = styles.update(req.params.id, parseStyleInput(req.body));
+      if (!style) {
+        res.status(404).json({ error: 'Style not found.' });
+        return;
+      }
+      res.json({ style });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete('/:id', (req, res, next) => {
+    try {
+      if (!styles.delete(req.params.id)) {
+        res.status(404).json({ error: 'Style not found.' });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,155 @@
+import { Router, type Response } from 'express';
+import { parseDataUrl, toDataUrl } from '../../shared/dataUrl';
+import { GenerationError } from '../../shared/errors';
+import { estimateTokenUsage } from '../../shared/pricing';
+import { USER_ID_HEADER, type GenerationUsage } from '../../shared/usage';
+import type { BackendRegistry, ImageGenerationRequest, ImageModelBackend } from '../backends';
+import type { HistoryStore, NewGeneration } from '../history';
+import { canDecode, compositeWithMask } from '../images';
+import { buildOutfitPrompt, buildRefinePrompt, buildStylePrompt, MASK_PROMPT, REFERENCE_FRAME_PROMPT } from '../prompts';
+import type { StyleStore } from '../styles';
+import type { UsageStore } from '../usage';
+import { parseClipFrame, parseGarments, parseImage, parseInstruction, parseMask, parseModel, parseOutfitDescription, parsePromptOverride, parseReference, parseSeed, parseStyle, parseStyleParameters, parseUserId } from '../validation';
+
+const QUOTA_MESSAGES = {
+  daily: "Today's generation limit for this studio is reached.",
+  perUser: "You've reached your own daily generation limit.",
+};
+
+/** Aborts once the client disconnects before the response went out, e.g. after pressing Cancel. */
+function abortOnClose(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+function cancelled() {
+  return new DOMException('The client cancelled the request.', 'AbortError');
+}
+
+export function createTransformRouter(backends: BackendRegistry, history: HistoryStore, styles: StyleStore, usage: UsageStore) {
+  const router = Router();
+
+  // Every call that reaches the model is metered, failures included; it claims
+  // its quota slot before the call, so requests over quota are turned away
+  // before that and cost nothing. With a mask, the
+  // result is composited onto the input here, so history and every later
+  // download keep the protected pixels; a result that can't be composited is
+  // metered as a failure. A request the client cancels is metered as cancelled
+  // and not saved.
+  async function generate(
+    userId: string,
+    backend: ImageModelBackend,
+    { image, prompt, mask, references = [], seed, signal }: ImageGenerationRequest,
+    details: Pick<NewGeneration, 'mode' | 'style' | 'outfitPrompt' | 'instruction' | 'parameters' | 'clipFrame'>,
+  ) {
+    if (mask && !(canDecode(image) && canDecode(mask))) {
+      throw new GenerationError('invalid_input', 'Region masks work with JPEG and PNG photos only.');
+    }
+    const reservation = usage.reserve({ userId, mode: details.mode, model: backend.name });
+    if (reservation.id === null) {
+      throw new GenerationError('quota_exceeded', QUOTA_MESSAGES[reservation.reached]);
+    }
+
+    const startedAt = performance.now();
+    const fullPrompt = mask ? `${prompt} ${MASK_PROMPT}` : prompt;
+    let result;
+    try {
+      result = await backend.generateImage({ image, mask, references, seed, signal, prompt: fullPrompt });
+      if (!result) {
+        throw new GenerationError('no_image', 'The model returned no image.');
+      }
+    } catch (error) {
+      const outcome = signal?.aborted ? 'cancelled' : error instanceof GenerationError ? error.code : 'error';
+      usage.finish(reservation.id, { outcome, inputTokens: 0, outputTokens: 0, latencyMs: performance.now() - startedAt });
+      throw signal?.aborted ? cancelled() : error;
+    }
+
+    const latencyMs = performance.now() - startedAt;
+    const tokens = result.usage ?? estimateTokenUsage(1 + (mask ? 1 : 0) + references.length);
+    // The image arrived after the client left: it was billed, but nobody will see it.
+    if (signal?.aborted) {
+      usage.finish(reservation.id, { outcome: 'cancelled', ...tokens, latencyMs });
+      throw cancelled();
+    }
+    let resultImage = result.image;
+    if (mask) {
+      try {
+        resultImage = toDataUrl(compositeWithMask(image, parseDataUrl(result.image), mask));
+      } catch {
+        usage.finish(reservation.id, { outcome: 'no_image', ...tokens, latencyMs });
+        throw new GenerationError('no_image', "The model returned an image the server couldn't read.");
+      }
+    }
+    usage.finish(reservation.id, { outcome: 'success', ...tokens, latencyMs });
+    const generation = history.add({
+      ...details,
+      prompt: fullPrompt,
+      seed: seed ?? null,
+      model: backend.name,
+      original: image,
+      result: parseDataUrl(resultImage),
+      durationMs: latencyMs,
+    });
+    const generationUsage: GenerationUsage = { ...tokens, model: backend.name, latencyMs };
+    return { image: resultImage, generation, usage: generationUsage };
+  }
+
+  router.post('/style', async (req, res, next) => {
+    try {
+      const image = parseImage(req.body);
+      const style = parseStyle(req.body, styles);
+      const promptTemplate = parsePromptOverride(req.body) ?? style.promptTemplate;
+      const parameters = parseStyleParameters(req.body);
+      const mask = parseMask(req.body);
+      const seed = parseSeed(req.body);
+      const reference = parseReference(req.body);
+      const prompt = buildStylePrompt({ ...style, promptTemplate }, parameters);
+      res.json(await generate(parseUserId(req.get(USER_ID_HEADER)), parseModel(req.body, backends), {
+        image,
+        mask,
+        seed,
+        signal: abortOnClose(res),
+        references: reference ? [reference] : undefined,
+        prompt: reference ? `${prompt} ${REFERENCE_FRAME_PROMPT}` : prompt,
+      }, { mode: 'style', style: style.id, outfitPrompt: null, instruction: null, parameters, clipFrame: parseClipFrame(req.body) }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post('/outfit', async (req, res, next) => {
+    try {
+      const image = parseImage(req.body);
+      const garments = parseGarments(req.body);
+      const outfitDescription = parseOutfitDescription(req.body, garments.length === 0);
+      const mask = parseMask(req.body);
+      const seed = parseSeed(req.body);
+      res.json(await generate(
+        parseUserId(req.get(USER_ID_HEADER)),
+        parseModel(req.body, backends),
+        { image, mask, seed, signal: abortOnClose(res), references: garments, prompt: buildOutfitPrompt(outfitDescription, garments.length) },
+        { mode: 'outfit', style: null, outfitPrompt: outfitDescription || null, instruction: null, parameters: null, clipFrame: false },
+      ));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Applies a follow-up instruction to an earlier result, which arrives as the image.
+  router.post('/refine', async (req, res, next) => {
+    try {
+      const image = parseImage(req.body);
+      const instruction = parseInstruction(req.body);
+      const mask = parseMask(req.body);
+      const seed = parseSeed(req.body);
+      res.json(await generate(parseUserId(req.get(USER_ID_HEADER)), parseModel(req.body, backends), { image, mask, seed, signal: abortOnClose(res), prompt: buildRefinePrompt(instruction) }, { mode: 'refine', style: null, outfitPrompt: null, instruction, parameters: null, clipFrame: false }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { USER_ID_HEADER } from '../../shared/usage';
+import type { UsageStore } from '../usage';
+import { parseUserId } from '../validation';
+
+export function createUsageRouter(usage: UsageStore) {
+  const router = Router();
+
+  router.get('/', (req, res, next) => {
+    try {
+      const userId = parseUserId(req.get(USER_ID_HEADER));
+      res.json({ today: usage.today(userId), quota: usage.quota(userId) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,122 @@
+import { BUILT_IN_STYLES, type ArtisticStyle, type ArtisticStyleInput, type StyleIconName, type StyleId, type StyleImportResult } from '../shared/styles';
+import type { StudioDatabase } from './db';
+import { ValidationError } from './validation';
+
+interface CustomStyleRow {
+  id: string;
+  label: string;
+  icon: StyleIconName;
+  description: string;
+  prompt_template: string;
+}
+
+function toStyle(row: CustomStyleRow): ArtisticStyle {
+  return {
+    id: row.id,
+    label: row.label,
+    icon: row.icon,
+    description: row.description,
+    promptTemplate: row.prompt_template,
+    builtIn: false,
+  };
+}
+
+/** A pack would overwrite existing custom styles and the caller didn't ask to replace them. */
+export class StyleConflictError extends Error {
+  readonly conflicts: ArtisticStyle[];
+
+  constructor(conflicts: ArtisticStyle[]) {
+    super(`${conflicts.length === 1 ? 'A style' : `${conflicts.length} styles`} in this pack already ${conflicts.length === 1 ? 'exists' : 'exist'}: ${conflicts.map((style) => `"${style.label}"`).join(', ')}.`);
+    this.name = 'StyleConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+function slugify(label: string) {
+  return label.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'style';
+}
+
+function isBuiltIn(id: StyleId) {
+  return BUILT_IN_STYLES.some((style) => style.id === id);
+}
+
+export type StyleStore = ReturnType<typeof createStyleStore>;
+
+/** Built-in styles plus the team's custom styles, behind one lookup. */
+export function createStyleStore(db: StudioDatabase) {
+  const selectAll = db.prepare('SELECT * FROM custom_styles ORDER BY created_at, id');
+  const selectOne = db.prepare('SELECT * FROM custom_styles WHERE id = ?');
+  const upsert = db.prepare(`
+    INSERT INTO custom_styles (id, label, icon, description, prompt_template, created_at, updated_at)
+    VALUES (@id, @label, @icon, @description, @promptTemplate, @now, @now)
+    ON CONFLICT (id) DO UPDATE SET
+      label = excluded.label,
+      icon = excluded.icon,
+      description = excluded.description,
+      prompt_template = excluded.prompt_template,
+      updated_at = excluded.updated_at
+  `);
+  const remove = db.prepare('DELETE FROM custom_styles WHERE id = ?');
+
+  function get(id: StyleId): ArtisticStyle | null {
+    const builtIn = BUILT_IN_STYLES.find((style) => style.id === id);
+    if (builtIn) return builtIn;
+    const row = selectOne.get(id) as CustomStyleRow | undefined;
+    return row ? toStyle(row) : null;
+  }
+
+  function save(id: StyleId, input: ArtisticStyleInput): ArtisticStyle {
+    if (isBuiltIn(id)) {
+      throw new ValidationError(`"${id}" is a built-in style and can't be changed.`);
+    }
+    upsert.run({ id, ...input, now: new Date().toISOString() });
+    return get(id)!;
+  }
+
+  return {
+    list(): ArtisticStyle[] {
+      return [...BUILT_IN_STYLES, ...(selectAll.all() as CustomStyleRow[]).map(toStyle)];
+    },
+
+    get,
+
+    create(input: ArtisticStyleInput): ArtisticStyle {
+      const base = slugify(input.label);
+      let id = base;
+      for (let n = 2; get(id); n++) {
+        id = `${base}-${n}`;
+      }
+      return save(id, input);
+    },
+
+    update(id: StyleId, input: ArtisticStyleInput): ArtisticStyle | null {
+      if (!isBuiltIn(id) && !selectOne.get(id)) return null;
+      return save(id, input);
+    },
+
+    /**
+     * Adds every style in the pack, all or nothing. Custom styles with the same
+     * id are only overwritten with `replace`; otherwise a `StyleConflictError`
+     * names them and nothing is saved.
+     */
+    importStyles(styles: (ArtisticStyleInput & { id: StyleId })[], replace = false): StyleImportResult {
+      return db.transaction(() => {
+        const replaced = styles
+          .map(({ id }) => selectOne.get(id) as CustomStyleRow | undefined)
+          .filter((row): row is CustomStyleRow => row !== undefined)
+          .map(toStyle);
+        if (replaced.length > 0 && !replace) {
+          throw new StyleConflictError(replaced);
+        }
+        return { styles: styles.map(({ id, ...input }) => save(id, input)), replaced };
+      })();
+    },
+
+    delete(id: StyleId): boolean {
+      if (isBuiltIn(id)) {
+        throw new ValidationError(`"${id}" is a built-in style and can't be deleted.`);
+      }
+      return remove.run(id).changes > 0;
+    },
+  };
+}
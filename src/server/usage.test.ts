@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { test, type TestContext } from 'node:test';
+import type { QuotaLimits } from '../shared/usage';
+import { openDatabase } from './db';
+import { createUsageStore } from './usage';
+
+const NOW = new Date('2026-03-14T12:00:00Z');
+
+function store(t: TestContext, limits: QuotaLimits) {
+  const db = openDatabase(':memory:');
+  t.after(() => db.close());
+  return createUsageStore(db, limits);
+}
+
+const call = (userId: string) => ({ userId, mode: 'style' as const, model: 'fake' });
+
+test('refuses reservations once the daily limit is reached, whoever asks', (t) => {
+  const usage = store(t, { daily: 2, perUser: null });
+  assert.equal(usage.reserve(call('ana'), NOW).reached, null);
+  assert.equal(usage.reserve(call('ben'), NOW).reached, null);
+  assert.deepEqual(usage.reserve(call('cy'), NOW), { id: null, reached: 'daily' });
+});
+
+test('refuses reservations past a user\'s own limit without blocking others', (t) => {
+  const usage = store(t, { daily: null, perUser: 1 });
+  assert.ok(usage.reserve(call('ana'), NOW).id);
+  assert.deepEqual(usage.reserve(call('ana'), NOW), { id: null, reached: 'perUser' });
+  assert.ok(usage.reserve(call('ben'), NOW).id);
+});
+
+test('counts calls from earlier days toward nothing', (t) => {
+  const usage = store(t, { daily: 1, perUser: null });
+  assert.ok(usage.reserve(call('ana'), new Date('2026-03-13T23:59:59Z')).id);
+  assert.ok(usage.reserve(call('ana'), NOW).id);
+});
+
+test('keeps failed and cancelled calls on the quota and in the summaries', (t) => {
+  const usage = store(t, { daily: 3, perUser: null });
+  const failed = usage.reserve(call('ana'), NOW).id!;
+  usage.finish(failed, { outcome: 'rate_limited', inputTokens: 0, outputTokens: 0, latencyMs: 120.4 });
+  const cancelled = usage.reserve(call('ana'), NOW).id!;
+  usage.finish(cancelled, { outcome: 'cancelled', inputTokens: 258, outputTokens: 1290, latencyMs: 900 });
+
+  assert.deepEqual(usage.quota('ana', NOW).used, { total: 2, user: 2 });
+  const { all } = usage.today('ana', NOW);
+  assert.equal(all.requests, 2);
+  assert.equal(all.successes, 0);
+  assert.equal(all.failures, 2);
+  // A call cancelled after the model answered was still billed.
+  assert.equal(all.outputTokens, 1290);
+});
+
+test('counts calls in flight toward the quota but not the summaries', (t) => {
+  const usage = store(t, { daily: 1, perUser: null });
+  assert.ok(usage.reserve(call('ana'), NOW).id);
+  assert.equal(usage.quota('ben', NOW).reached, 'daily');
+  assert.equal(usage.today('ana', NOW).all.requests, 0);
+});
@@ -0,0 +1,93 @@
+import { quotaStatus, startOfUtcDay, summarizeUsage, type QuotaLimits, type QuotaStatus, type UsageEvent, type UsageSummary } from '../shared/usage';
+import type { StudioDatabase } from './db';
+
+export type PendingUsageEvent = Pick<UsageEvent, 'mode' | 'model'> & { userId: string };
+export type UsageResult = Pick<UsageEvent, 'outcome' | 'inputTokens' | 'outputTokens' | 'latencyMs'>;
+
+/** A claimed generation to `finish`, or the quota that turned it away. */
+export type UsageReservation =
+  | { id: number; reached: null }
+  | { id: null; reached: NonNullable<QuotaStatus['reached']> };
+
+interface UsageRow {
+  outcome: UsageEvent['outcome'];
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}
+
+/** Reads the limits from `DAILY_GENERATION_LIMIT` and `USER_DAILY_GENERATION_LIMIT`; unset means unlimited. */
+export function quotaLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): QuotaLimits {
+  const parse = (name: string) => {
+    const value = env[name];
+    if (value === undefined || value === '') return null;
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error(`${name} must be a whole number, got "${value}".`);
+    }
+    return limit;
+  };
+  return { daily: parse('DAILY_GENERATION_LIMIT'), perUser: parse('USER_DAILY_GENERATION_LIMIT') };
+}
+
+export type UsageStore = ReturnType<typeof createUsageStore>;
+
+/** Meters every model call, and answers whether the daily quotas allow another. */
+export function createUsageStore(db: StudioDatabase, limits: QuotaLimits) {
+  const insert = db.prepare(`
+    INSERT INTO usage_events (user_id, mode, model, outcome, input_tokens, output_tokens, latency_ms, created_at)
+    VALUES (@userId, @mode, @model, 'pending', 0, 0, 0, @createdAt)
+  `);
+  const update = db.prepare(`
+    UPDATE usage_events SET outcome = @outcome, input_tokens = @inputTokens, output_tokens = @outputTokens, latency_ms = @latencyMs
+    WHERE id = @id
+  `);
+  const selectSince = db.prepare(`
+    SELECT outcome, input_tokens AS inputTokens, output_tokens AS outputTokens, latency_ms AS latencyMs
+    FROM usage_events WHERE created_at >= ? AND outcome != 'pending'
+  `);
+  const selectUserSince = db.prepare(`
+    SELECT outcome, input_tokens AS inputTokens, output_tokens AS outputTokens, latency_ms AS latencyMs
+    FROM usage_events WHERE created_at >= ? AND user_id = ? AND outcome != 'pending'
+  `);
+  const countSince = db.prepare('SELECT COUNT(*) AS total, COUNT(CASE WHEN user_id = ? THEN 1 END) AS user FROM usage_events WHERE created_at >= ?');
+
+  const quota = (userId: string, now = new Date()): QuotaStatus => {
+    const used = countSince.get(userId, startOfUtcDay(now).toISOString()) as QuotaStatus['used'];
+    return quotaStatus(limits, used, now);
+  };
+
+  // Checking the quota and claiming a slot in one transaction means concurrent
+  // requests can't all pass the check before any of them is recorded.
+  const reserve = db.transaction((event: PendingUsageEvent, now: Date): UsageReservation => {
+    const { reached } = quota(event.userId, now);
+    if (reached) return { id: null, reached };
+    const { lastInsertRowid } = insert.run({ ...event, createdAt: now.toISOString() });
+    return { id: Number(lastInsertRowid), reached: null };
+  });
+
+  return {
+    limits,
+
+    /** Claims one call against today's quotas before it reaches the model. */
+    reserve(event: PendingUsageEvent, now = new Date()): UsageReservation {
+      return reserve.immediate(event, now);
+    },
+
+    /** Records how a reserved call went; failed calls keep counting toward the quotas. */
+    finish(id: number, result: UsageResult) {
+      update.run({ ...result, id, latencyMs: Math.round(result.latencyMs) });
+    },
+
+    /** Today's usage (UTC) across everyone, and for `userId`. */
+    today(userId: string, now = new Date()): { all: UsageSummary; user: UsageSummary } {
+      const since = startOfUtcDay(now).toISOString();
+      return {
+        all: summarizeUsage(selectSince.all(since) as UsageRow[]),
+        user: summarizeUsage(selectUserSince.all(since, userId) as UsageRow[]),
+      };
+    },
+
+    quota,
+  };
+}
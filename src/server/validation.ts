@@ -0,0 +1,229 @@
+import {
+  MAX_GARMENT_IMAGES,
+  MAX_IMAGE_BYTES,
+  MAX_INSTRUCTION_LENGTH,
+  MAX_OUTFIT_DESCRIPTION_LENGTH,
+  MAX_PROMPT_TEMPLATE_LENGTH,
+  STYLE_ICON_NAMES,
+  STYLE_PACK_FORMAT,
+  STYLE_PACK_VERSION,
+  SUPPORTED_MIME_TYPES,
+  type ArtisticStyle,
+  type ArtisticStyleInput,
+  type StyleIconName,
+  type StyleId,
+} from '../shared/styles';
+import { ParameterError, parseParameters, type StyleParameters } from '../shared/parameters';
+import { ANONYMOUS_USER_ID, USER_ID_HEADER } from '../shared/usage';
+import type { BackendRegistry, ImageModelBackend, InlineImage } from './backends';
+import type { StyleStore } from './styles';
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+export function parseImage(body: any): InlineImage {
+  const { image, mimeType } = body ?? {};
+  if (typeof image !== 'string' || image.length === 0) {
+    throw new ValidationError('An image is required.');
+  }
+  if (typeof mimeType !== 'string' || !SUPPORTED_MIME_TYPES.includes(mimeType)) {
+    throw new ValidationError(`Unsupported image type. Use one of: ${SUPPORTED_MIME_TYPES.join(', ')}.`);
+  }
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(image)) {
+    throw new ValidationError('The image must be base64 encoded.');
+  }
+  if (base64ByteLength(image) > MAX_IMAGE_BYTES) {
+    throw new ValidationError(`Images must be ${MAX_IMAGE_BYTES / (1024 * 1024)}MB or smaller.`);
+  }
+  return { data: image, mimeType };
+}
+
+/** Reads the optional `mask` field: a base64 PNG where white marks the editable region. */
+export function parseMask(body: any): InlineImage | undefined {
+  if (body?.mask == null) return undefined;
+  try {
+    return parseImage({ image: body.mask, mimeType: body.maskMimeType ?? 'image/png' });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw new ValidationError(`Invalid mask: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/** Reads the optional `clipFrame` flag, set on each frame of a stylized clip. */
+export function parseClipFrame(body: any): boolean {
+  return body?.clipFrame === true;
+}
+
+/** Reads the optional `reference` field: an earlier result whose look the new image should match. */
+export function parseReference(body: any): InlineImage | undefined {
+  if (body?.reference == null) return undefined;
+  try {
+    return parseImage({ image: body.reference, mimeType: body.referenceMimeType });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw new ValidationError(`Invalid reference image: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+export function parseStyle(body: any, styles: StyleStore): ArtisticStyle {
+  const id = body?.style;
+  const style = typeof id === 'string' ? styles.get(id) : null;
+  if (!style) {
+    throw new ValidationError(`Unknown style "${id}".`);
+  }
+  return style;
+}
+
+/** Reads the optional `parameters` field; anything left out keeps its default. */
+export function parseStyleParameters(body: any): StyleParameters {
+  try {
+    return parseParameters(body?.parameters ?? {});
+  } catch (error) {
+    if (error instanceof ParameterError) {
+      throw new ValidationError(error.message);
+    }
+    throw error;
+  }
+}
+
+function requireText(value: unknown, field: string, maxLength: number): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) {
+    throw new ValidationError(`A style ${field} is required.`);
+  }
+  if (text.length > maxLength) {
+    throw new ValidationError(`The style ${field} must be ${maxLength} characters or fewer.`);
+  }
+  return text;
+}
+
+export function parseStyleInput(body: any): ArtisticStyleInput {
+  const icon = body?.icon;
+  if (!(STYLE_ICON_NAMES as readonly string[]).includes(icon)) {
+    throw new ValidationError(`Unknown style icon "${icon}".`);
+  }
+  return {
+    label: requireText(body?.label, 'name', 60),
+    icon: icon as StyleIconName,
+    description: typeof body?.description === 'string' ? body.description.trim().slice(0, 140) : '',
+    promptTemplate: requireText(body?.promptTemplate, 'prompt', MAX_PROMPT_TEMPLATE_LENGTH),
+  };
+}
+
+/** Reads the optional `promptTemplate` override, e.g. the style snapshot from a shared recipe. */
+export function parsePromptOverride(body: any): string | undefined {
+  if (body?.promptTemplate == null) return undefined;
+  return requireText(body.promptTemplate, 'prompt', MAX_PROMPT_TEMPLATE_LENGTH);
+}
+
+export function parseStylePack(body: any): (ArtisticStyleInput & { id: StyleId })[] {
+  if (body?.format !== STYLE_PACK_FORMAT || !Array.isArray(body?.styles)) {
+    throw new ValidationError('This file is not a style pack.');
+  }
+  if (typeof body.version !== 'number' || body.version > STYLE_PACK_VERSION) {
+    throw new ValidationError(`Style pack version ${body.version} is not supported.`);
+  }
+  return body.styles.map((style: any) => {
+    if (typeof style?.id !== 'string' || !/^[a-z0-9][a-z0-9-]{0,63}$/.test(style.id)) {
+      throw new ValidationError(`Invalid style id "${style?.id}" in style pack.`);
+    }
+    return { id: style.id, ...parseStyleInput(style) };
+  });
+}
+
+export function parseInstruction(body: any): string {
+  const instruction = typeof body?.instruction === 'string' ? body.instruction.trim() : '';
+  if (!instruction) {
+    throw new ValidationError('Please describe what to change.');
+  }
+  if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+    throw new ValidationError(`Instructions must be ${MAX_INSTRUCTION_LENGTH} characters or fewer.`);
+  }
+  return instruction;
+}
+
+// Gemini takes a signed 32-bit seed.
+const MAX_SEED = 2 ** 31 - 1;
+
+/** Reads the optional `seed` field; the same seed and prompt give a near-identical image. */
+export function parseSeed(body: any): number | undefined {
+  if (body?.seed == null) return undefined;
+  if (!Number.isInteger(body.seed) || body.seed < 0 || body.seed > MAX_SEED) {
+    throw new ValidationError(`The seed must be a whole number from 0 to ${MAX_SEED}.`);
+  }
+  return body.seed;
+}
+
+/** The backend for the request's `model`, or the default one when it names none. */
+export function parseModel(body: any, backends: BackendRegistry): ImageModelBackend {
+  const model = body?.model ?? backends.defaultModel;
+  const backend = typeof model === 'string' ? backends.get(model) : undefined;
+  if (!backend) {
+    throw new ValidationError(`Unknown model "${model}".`);
+  }
+  return backend;
+}
+
+export function parseUserId(header: unknown): string {
+  if (header === undefined || header === '') return ANONYMOUS_USER_ID;
+  if (typeof header !== 'string' || !/^[\w-]{1,64}$/.test(header)) {
+    throw new ValidationError(`The ${USER_ID_HEADER} header must be up to 64 letters, digits, dashes or underscores.`);
+  }
+  return header;
+}
+
+export function parseFavorite(body: any): boolean {
+  if (typeof body?.favorite !== 'boolean') {
+    throw new ValidationError('Send `favorite` as true or false.');
+  }
+  return body.favorite;
+}
+
+/** Reads the optional `garments` field: reference photos as `{ image, mimeType }` objects. */
+export function parseGarments(body: any): InlineImage[] {
+  const garments = body?.garments ?? [];
+  if (!Array.isArray(garments)) {
+    throw new ValidationError('Garments must be a list of images.');
+  }
+  if (garments.length > MAX_GARMENT_IMAGES) {
+    throw new ValidationError(`Add at most ${MAX_GARMENT_IMAGES} garment images.`);
+  }
+  return garments.map((garment, index) => {
+    try {
+      return parseImage(garment);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(`Invalid garment image ${index + 1}: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Reads `outfitDescription`. It may be left empty when garment images say
+ * what to wear, in which case it only refines the result.
+ */
+export function parseOutfitDescription(body: any, required = true): string {
+  const description = typeof body?.outfitDescription === 'string' ? body.outfitDescription.trim() : '';
+  if (!description && required) {
+    throw new ValidationError('Please provide an outfit description or garment images.');
+  }
+  if (description.length > MAX_OUTFIT_DESCRIPTION_LENGTH) {
+    throw new ValidationError(`Outfit descriptions must be ${MAX_OUTFIT_DESCRIPTION_LENGTH} characters or fewer.`);
+  }
+  return description;
+}
@@ -1,76 +1,152 @@
-import { GoogleGenAI } from "@google/genai";
+import { parseDataUrl } from '../shared/dataUrl';
+import { GenerationError, isAbortError, type GenerationErrorPayload } from '../shared/errors';
+import type { GenerationRecord } from '../shared/history';
+import type { StyleParameters } from '../shared/parameters';
+import { withRetry, type RetryOptions } from '../shared/retry';
+import type { StyleId, TransformMode } from '../shared/styles';
+import { USER_ID_HEADER, type GenerationUsage } from '../shared/usage';
+import { clientQuotaStatus, getClientUserId, recordUsage } from '../lib/usageMeter';
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+export type { ArtisticStyle, StyleId } from '../shared/styles';
+export type { StyleParameters } from '../shared/parameters';
+export { GenerationError, isAbortError } from '../shared/errors';
 
-export type ArtisticStyle = 'watercolor' | 'oil' | 'charcoal' | 'cyberpunk' | 'pencil' | 'popart';
+export interface TransformOptions extends Pick<RetryOptions, 'retries' | 'onRetry'> {
+  signal?: AbortSignal;
+  /** PNG data URL where white marks the region the model may change. */
+  mask?: string | null;
+  seed?: number;
+  /** Model id from the picker; the server's default when omitted. */
+  model?: string;
+}
 
-const STYLE_PROMPTS: Record<ArtisticStyle, string> = {
-  watercolor: 'Transform this image into a vibrant watercolor splash effect sketch. The style should be artistic, with visible brush strokes, paint drips, and a beautiful blend of colors, while maintaining the core subject of the original photo.',
-  oil: 'Transform this image into a classic oil painting. Use thick, visible brush strokes, rich textures, and deep, vibrant colors. The final result should look like a masterpiece on canvas.',
-  charcoal: 'Transform this image into a rough charcoal sketch. Use black and white tones, expressive hand-drawn lines, and smudged shading to create a dramatic, artistic feel.',
-  cyberpunk: 'Transform this image into a neon cyberpunk style. Use high contrast, glowing edges, and a palette dominated by electric pink, blue, and purple. Add a futuristic, digital glitch aesthetic.',
-  pencil: 'Transform this image into a detailed pencil drawing. Use fine graphite lines, realistic shading, and cross-hatching to create a classic, hand-sketched look on paper.',
-  popart: 'Transform this image into a bold pop art style. Use vibrant, flat colors, thick outlines, and halftone dot patterns reminiscent of 1960s comic book art.'
-};
+export interface TransformResult {
+  /** Data URL of the generated image. */
+  image: string;
+  /** The history entry the server saved for it. */
+  generation: GenerationRecord;
+  usage: GenerationUsage;
+}
 
-export async function transformToArtisticStyle(base64Image: string, mimeType: string, style: ArtisticStyle): Promise<string | null> {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Image,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: STYLE_PROMPTS[style],
-          },
-        ],
-      },
-    });
+export interface StyleTransformOptions extends TransformOptions {
+  parameters?: Partial<StyleParameters>;
+  /** Replaces the style's own prompt, e.g. with the snapshot from a shared recipe. */
+  promptTemplate?: string;
+  /** Data URL of an earlier result to match, e.g. the first frame of a clip. */
+  reference?: string;
+  /** Marks the result as a clip frame, which the gallery leaves out by default. */
+  clipFrame?: boolean;
+}
+
+export interface OutfitOptions extends TransformOptions {
+  /** Data URLs of garment product photos to dress the person in. */
+  garments?: string[];
+}
+
+// Empty in the browser, where the API shares the page's origin. Scripts outside
+// the browser (the CLI) point it at a server with `setApiBaseUrl`.
+let apiBaseUrl = '';
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
+export function setApiBaseUrl(url: string) {
+  apiBaseUrl = url.replace(/\/+$/, '');
+}
+
+function isErrorPayload(payload: any): payload is GenerationErrorPayload {
+  return typeof payload?.error === 'string' && typeof payload?.code === 'string';
+}
+
+function toGenerationError(response: Response, payload: unknown): Error {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  const retryAfterMs = retryAfter > 0 ? retryAfter * 1000 : undefined;
+  if (isErrorPayload(payload)) {
+    return GenerationError.fromPayload({ retryAfterMs, ...payload });
+  }
+  // The API always answers in JSON, so a body that isn't came from something in
+  // between, such as a proxy or a dev server that is restarting.
+  if (payload === null) {
+    if (response.status === 429) {
+      return new GenerationError('rate_limited', 'Too many requests.', { retryAfterMs });
+    }
+    if (response.status >= 500) {
+      return new GenerationError('network', `The server responded with status ${response.status}.`);
     }
-    return null;
-  } catch (error) {
-    console.error("Error transforming image:", error);
-    throw error;
   }
+  return new Error((payload as { error?: string } | null)?.error || `Request failed with status ${response.status}`);
 }
 
-export async function swapOutfit(base64Image: string, mimeType: string, outfitDescription: string): Promise<string | null> {
+async function sendTransform(path: string, body: string, signal?: AbortSignal): Promise<TransformResult> {
+  let response: Response;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Image,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: `Please swap the outfit of the person in this image with the following description: ${outfitDescription}. Keep the person's identity, pose, and background as consistent as possible. Only change the clothing.`,
-          },
-        ],
-      },
+    response = await fetch(`${apiBaseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [USER_ID_HEADER]: getClientUserId() },
+      body,
+      signal,
     });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new GenerationError('network', 'Could not reach the server.');
+  }
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
-    }
-    return null;
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw toGenerationError(response, payload);
+  }
+  if (!payload?.image) {
+    throw new GenerationError('no_image', 'The model returned no image.');
+  }
+  return payload;
+}
+
+// The API key lives on the server; these are thin clients for its `/api/transform` routes.
+// Rate limits and network failures are retried; aborting `signal` stops both the
+// request in flight and any pending retry with an AbortError. Every call is
+// metered locally, and refused once the usage panel's daily limit is reached.
+async function postTransform(mode: TransformMode, body: Record<string, unknown>, { signal, mask, seed, model, retries, onRetry }: TransformOptions = {}): Promise<TransformResult> {
+  if (clientQuotaStatus().reached) {
+    throw new GenerationError('quota_exceeded', 'The daily limit set in the Usage panel is reached. Raise it there to keep going.');
+  }
+  const maskData = mask ? parseDataUrl(mask) : null;
+  const json = JSON.stringify({ ...body, seed, model, mask: maskData?.data, maskMimeType: maskData?.mimeType });
+  const startedAt = performance.now();
+  try {
+    const result = await withRetry(() => sendTransform(`/api/transform/${mode}`, json, signal), { signal, retries, onRetry });
+    const { inputTokens, outputTokens, model } = result.usage;
+    recordUsage({ mode, model, outcome: 'success', inputTokens, outputTokens, latencyMs: performance.now() - startedAt });
+    return result;
   } catch (error) {
-    console.error("Error swapping outfit:", error);
+    // The server's own quota refusals never reached the model.
+    if (!(error instanceof GenerationError && error.code === 'quota_exceeded')) {
+      const outcome = isAbortError(error) ? 'cancelled' : error instanceof GenerationError ? error.code : 'error';
+      recordUsage({ mode, model: null, outcome, inputTokens: 0, outputTokens: 0, latencyMs: performance.now() - startedAt });
+    }
     throw error;
   }
 }
+
+export function transformToArtisticStyle(base64Image: string, mimeType: string, style: StyleId, { parameters, promptTemplate, reference, clipFrame, ...options }: StyleTransformOptions = {}): Promise<TransformResult> {
+  const referenceData = reference ? parseDataUrl(reference) : null;
+  return postTransform('style', {
+    image: base64Image,
+    mimeType,
+    style,
+    parameters,
+    promptTemplate,
+    reference: referenceData?.data,
+    referenceMimeType: referenceData?.mimeType,
+    clipFrame,
+  }, options);
+}
+
+export function refineImage(base64Image: string, mimeType: string, instruction: string, options?: TransformOptions): Promise<TransformResult> {
+  return postTransform('refine', { image: base64Image, mimeType, instruction }, options);
+}
+
+/** `outfitDescription` may be empty when `garments` are given; it then only refines the result. */
+export function swapOutfit(base64Image: string, mimeType: string, outfitDescription: string, { garments = [], ...options }: OutfitOptions = {}): Promise<TransformResult> {
+  const garmentImages = garments.map((garment) => {
+    const parsed = parseDataUrl(garment);
+    return { image: parsed.data, mimeType: parsed.mimeType };
+  });
+  return postTransform('outfit', { image: base64Image, mimeType, outfitDescription, garments: garmentImages }, options);
+}
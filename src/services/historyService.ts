@@ -0,0 +1,43 @@
+import type { GenerationRecord, HistoryFilters } from '../shared/history';
+
+export type { GenerationRecord, HistoryFilters } from '../shared/history';
+
+export function generationImageUrl(id: number, which: 'original' | 'result'): string {
+  return `/api/history/${id}/${which}`;
+}
+
+export async function listGenerations(filters: HistoryFilters = {}): Promise<GenerationRecord[]> {
+  const params = new URLSearchParams();
+  if (filters.mode) params.set('mode', filters.mode);
+  if (filters.style) params.set('style', filters.style);
+  if (filters.search) params.set('q', filters.search);
+  if (filters.favorite) params.set('favorite', '1');
+  if (filters.clipFrames) params.set('clipFrames', '1');
+
+  const response = await fetch(`/api/history?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load history (status ${response.status})`);
+  }
+  const payload = await response.json();
+  return payload.generations;
+}
+
+export async function setFavorite(id: number, favorite: boolean): Promise<GenerationRecord> {
+  const response = await fetch(`/api/history/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ favorite }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update generation (status ${response.status})`);
+  }
+  const payload = await response.json();
+  return payload.generation;
+}
+
+export async function deleteGeneration(id: number): Promise<void> {
+  const response = await fetch(`/api/history/${id}`, { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to delete generation (status ${response.status})`);
+  }
+}
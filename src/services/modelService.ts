@@ -0,0 +1,11 @@
+import type { ModelCatalog } from '../shared/models';
+
+export type { ModelCatalog, ModelInfo } from '../shared/models';
+
+export async function listModels(): Promise<ModelCatalog> {
+  const response = await fetch('/api/models');
+  if (!response.ok) {
+    throw new Error(`Failed to load models (status ${response.status})`);
+  }
+  return response.json();
+}
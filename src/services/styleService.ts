@@ -0,0 +1,51 @@
+import type { ArtisticStyle, ArtisticStyleInput, StyleId, StyleImportResult, StylePack } from '../shared/styles';
+
+/** Importing would overwrite `conflicts`; import again with `replace` to go ahead. */
+export class StyleConflictError extends Error {
+  readonly conflicts: ArtisticStyle[];
+
+  constructor(message: string, conflicts: ArtisticStyle[]) {
+    super(message);
+    this.name = 'StyleConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  const payload = await response.json().catch(() => null);
+  if (response.status === 409 && Array.isArray(payload?.conflicts)) {
+    throw new StyleConflictError(payload.error, payload.conflicts);
+  }
+  if (!response.ok) {
+    throw new Error(payload?.error || `Request failed with status ${response.status}`);
+  }
+  return payload as T;
+}
+
+export async function listStyles(): Promise<ArtisticStyle[]> {
+  return (await request<{ styles: ArtisticStyle[] }>('/api/styles')).styles;
+}
+
+export async function createStyle(input: ArtisticStyleInput): Promise<ArtisticStyle> {
+  return (await request<{ style: ArtisticStyle }>('/api/styles', { method: 'POST', body: JSON.stringify(input) })).style;
+}
+
+export async function updateStyle(id: StyleId, input: ArtisticStyleInput): Promise<ArtisticStyle> {
+  return (await request<{ style: ArtisticStyle }>(`/api/styles/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(input) })).style;
+}
+
+export async function deleteStyle(id: StyleId): Promise<void> {
+  await request<void>(`/api/styles/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/** Rejects with a `StyleConflictError` when the pack would overwrite custom styles, unless `replace` is set. */
+export async function importStylePack(pack: StylePack, replace = false): Promise<StyleImportResult> {
+  return request<StyleImportResult>(`/api/styles/import${replace ? '?replace=true' : ''}`, { method: 'POST', body: JSON.stringify(pack) });
+}
@@ -0,0 +1,18 @@
+import { USER_ID_HEADER, type QuotaStatus, type UsageSummary } from '../shared/usage';
+import { getClientUserId } from '../lib/usageMeter';
+
+export type { QuotaLimits, QuotaStatus, UsageEvent, UsageSummary } from '../shared/usage';
+
+export interface ServerUsage {
+  today: { all: UsageSummary; user: UsageSummary };
+  quota: QuotaStatus;
+}
+
+/** Today's metered usage and quota on the server, for this browser's user id. */
+export async function fetchServerUsage(): Promise<ServerUsage> {
+  const response = await fetch('/api/usage', { headers: { [USER_ID_HEADER]: getClientUserId() } });
+  if (!response.ok) {
+    throw new Error(`Failed to load usage (status ${response.status})`);
+  }
+  return response.json();
+}
@@ -0,0 +1,14 @@
+export interface ParsedDataUrl {
+  mimeType: string;
+  data: string;
+}
+
+export function parseDataUrl(dataUrl: string): ParsedDataUrl {
+  const [mimeInfo, data = ''] = dataUrl.split(',');
+  const mimeType = mimeInfo.match(/:(.*?);/)?.[1] || 'image/png';
+  return { mimeType, data };
+}
+
+export function toDataUrl({ mimeType, data }: ParsedDataUrl): string {
+  return `data:${mimeType};base64,${data}`;
+}
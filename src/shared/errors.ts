@@ -0,0 +1,69 @@
+export type GenerationErrorCode =
+  | 'rate_limited'
+  | 'safety_blocked'
+  | 'no_image'
+  | 'invalid_input'
+  | 'network'
+  | 'quota_exceeded'
+  // The model refused the server itself, e.g. a bad API key or an unknown model.
+  | 'model_error'
+  // Something failed on our side, possibly after the model had already answered.
+  | 'server_error';
+
+/** Codes worth trying again unchanged: the same request may well succeed a moment later. */
+export const RETRYABLE_ERROR_CODES: readonly GenerationErrorCode[] = ['rate_limited', 'network'];
+
+/** HTTP status the API answers with for each code. */
+export const ERROR_STATUS: Record<GenerationErrorCode, number> = {
+  rate_limited: 429,
+  safety_blocked: 422,
+  no_image: 502,
+  invalid_input: 400,
+  network: 503,
+  quota_exceeded: 429,
+  model_error: 502,
+  server_error: 500,
+};
+
+export interface GenerationErrorPayload {
+  error: string;
+  code: GenerationErrorCode;
+  /** The model's own explanation, e.g. a block reason such as `IMAGE_SAFETY`. */
+  reason?: string;
+  retryAfterMs?: number;
+}
+
+/**
+ * A failed generation, classified so callers can decide whether to retry and
+ * what to tell the user. Travels from the server to the client as a
+ * `GenerationErrorPayload`.
+ */
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  readonly reason?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(code: GenerationErrorCode, message: string, options: { reason?: string; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.code = code;
+    this.reason = options.reason;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable() {
+    return RETRYABLE_ERROR_CODES.includes(this.code);
+  }
+
+  toPayload(): GenerationErrorPayload {
+    return { error: this.message, code: this.code, reason: this.reason, retryAfterMs: this.retryAfterMs };
+  }
+
+  static fromPayload(payload: GenerationErrorPayload) {
+    return new GenerationError(payload.code, payload.error, { reason: payload.reason, retryAfterMs: payload.retryAfterMs });
+  }
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
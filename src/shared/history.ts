@@ -0,0 +1,31 @@
+import type { StyleParameters } from './parameters';
+import type { StyleId, TransformMode } from './styles';
+
+export interface GenerationRecord {
+  id: number;
+  mode: TransformMode;
+  style: StyleId | null;
+  outfitPrompt: string | null;
+  instruction: string | null;
+  parameters: StyleParameters | null;
+  /** The exact text sent to the model, so a result can be reproduced. */
+  prompt: string | null;
+  seed: number | null;
+  favorite: boolean;
+  /** Stylized as one frame of a clip rather than on its own. */
+  clipFrame: boolean;
+  model: string;
+  originalMimeType: string;
+  resultMimeType: string;
+  createdAt: string;
+  durationMs: number;
+}
+
+export interface HistoryFilters {
+  mode?: TransformMode;
+  style?: StyleId;
+  search?: string;
+  favorite?: boolean;
+  /** Include clip frames, which are left out otherwise so one clip doesn't bury everything else. */
+  clipFrames?: boolean;
+}
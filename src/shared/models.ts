@@ -0,0 +1,17 @@
+export type ModelProvider = 'gemini' | 'local' | 'fake';
+
+/** A model the server can generate with, as listed in the model picker. */
+export interface ModelInfo {
+  id: string;
+  label: string;
+  provider: ModelProvider;
+  description: string;
+}
+
+export interface ModelCatalog {
+  models: ModelInfo[];
+  /** Used when a request names no model. */
+  defaultModel: string;
+}
+
+export const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
@@ -0,0 +1,132 @@
+export interface PaletteChoice {
+  /** A preset's id, or `custom`; the UI shows the translated name for it. */
+  id?: string;
+  /** English name, used in the prompt. */
+  name: string;
+  colors: string[];
+}
+
+/** Tweaks applied on top of any style's prompt template. */
+export interface StyleParameters {
+  /** How strongly the style is applied, from 10 (subtle) to 100 (full). */
+  strength: number;
+  /** Colors to restrict the result to, or null to let the style decide. */
+  palette: PaletteChoice | null;
+  preserveFaces: boolean;
+  keepBackground: boolean;
+  /** Free text describing what the result should not contain. */
+  avoid: string;
+}
+
+export const DEFAULT_STYLE_PARAMETERS: StyleParameters = {
+  strength: 100,
+  palette: null,
+  preserveFaces: false,
+  keepBackground: false,
+  avoid: '',
+};
+
+export const MIN_STRENGTH = 10;
+
+export const MAX_STRENGTH = 100;
+
+export const MAX_PALETTE_COLORS = 6;
+
+export const MAX_AVOID_LENGTH = 300;
+
+export const CUSTOM_PALETTE_ID = 'custom';
+
+export const PALETTE_PRESETS: PaletteChoice[] = [
+  { id: 'teal-orange', name: 'Teal & Orange', colors: ['#0f4c5c', '#1a936f', '#f4a259', '#e36414'] },
+  { id: 'pastel', name: 'Pastel', colors: ['#ffd6e0', '#c1e7e3', '#fff1c1', '#d7c4f2'] },
+  { id: 'monochrome', name: 'Monochrome', colors: ['#111111', '#555555', '#aaaaaa', '#f5f5f5'] },
+  { id: 'earth-tones', name: 'Earth Tones', colors: ['#6b4226', '#a47148', '#d9b38c', '#556b2f'] },
+  { id: 'neon', name: 'Neon', colors: ['#ff00a0', '#00e5ff', '#9d00ff', '#fffb00'] },
+  { id: 'sepia', name: 'Sepia', colors: ['#3b2a1a', '#704214', '#b08d57', '#efe1c6'] },
+];
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+export class ParameterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParameterError';
+  }
+}
+
+function parsePalette(value: any): PaletteChoice | null {
+  if (value == null) return null;
+  const colors = value.colors;
+  if (!Array.isArray(colors) || colors.length === 0 || colors.length > MAX_PALETTE_COLORS || !colors.every(isHexColor)) {
+    throw new ParameterError(`A palette needs 1 to ${MAX_PALETTE_COLORS} hex colors like #1a936f.`);
+  }
+  const name = typeof value.name === 'string' && value.name.trim() ? value.name.trim().slice(0, 40) : 'Custom';
+  const known = value.id === CUSTOM_PALETTE_ID || PALETTE_PRESETS.some((preset) => preset.id === value.id);
+  return { ...(known && { id: value.id }), name, colors: colors.map((color: string) => color.toLowerCase()) };
+}
+
+/**
+ * Checks parameters from an untrusted source, such as a request body or a
+ * shared recipe, and fills in defaults for anything left out. Throws a
+ * `ParameterError` for the first invalid field.
+ */
+export function parseParameters(value: any): StyleParameters {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ParameterError('Style parameters must be an object.');
+  }
+  const strength = value.strength ?? DEFAULT_STYLE_PARAMETERS.strength;
+  if (!Number.isInteger(strength) || strength < MIN_STRENGTH || strength > MAX_STRENGTH) {
+    throw new ParameterError(`Strength must be a whole number from ${MIN_STRENGTH} to ${MAX_STRENGTH}.`);
+  }
+  const avoid = typeof value.avoid === 'string' ? value.avoid.trim() : '';
+  if (avoid.length > MAX_AVOID_LENGTH) {
+    throw new ParameterError(`The "avoid" text must be ${MAX_AVOID_LENGTH} characters or fewer.`);
+  }
+  return {
+    strength,
+    palette: parsePalette(value.palette),
+    preserveFaces: value.preserveFaces === true,
+    keepBackground: value.keepBackground === true,
+    avoid,
+  };
+}
+
+export type StrengthLevel = 'very subtle' | 'subtle' | 'moderate' | 'strong' | 'full';
+
+export function describeStrength(strength: number): StrengthLevel {
+  if (strength <= 20) return 'very subtle';
+  if (strength <= 40) return 'subtle';
+  if (strength <= 60) return 'moderate';
+  if (strength <= 80) return 'strong';
+  return 'full';
+}
+
+export function describePalette(palette: PaletteChoice): string {
+  return `${palette.name} (${palette.colors.join(', ')})`;
+}
+
+/**
+ * Turns the parameters into prompt sentences. Every style gets the same
+ * wording in the same order, whatever its template says.
+ */
+export function describeParameters(parameters: StyleParameters): string[] {
+  const directives: string[] = [];
+  if (parameters.strength < MAX_STRENGTH) {
+    directives.push(`Apply the style with ${describeStrength(parameters.strength)} strength (${parameters.strength}%), keeping more of the original photo's detail and realism.`);
+  }
+  if (parameters.palette) {
+    directives.push(`Restrict the colors to this palette: ${describePalette(parameters.palette)}.`);
+  }
+  if (parameters.preserveFaces) {
+    directives.push('Keep every face photorealistic and recognisable; do not stylize faces.');
+  }
+  if (parameters.keepBackground) {
+    directives.push('Keep the background exactly as in the original photo; only stylize the main subject.');
+  }
+  if (parameters.avoid.trim()) {
+    directives.push(`Avoid: ${parameters.avoid.trim()}.`);
+  }
+  return directives;
+}
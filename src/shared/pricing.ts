@@ -0,0 +1,29 @@
+// Gemini 2.5 Flash Image list prices. Every generated image is billed as a
+// fixed number of output tokens; each input image costs a few hundred input tokens.
+export const IMAGE_OUTPUT_TOKENS = 1290;
+export const IMAGE_INPUT_TOKENS = 258;
+export const INPUT_PRICE_PER_MILLION_TOKENS = 0.3;
+export const OUTPUT_PRICE_PER_MILLION_TOKENS = 30;
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export function costOfTokens({ inputTokens, outputTokens }: TokenUsage): number {
+  return (inputTokens * INPUT_PRICE_PER_MILLION_TOKENS + outputTokens * OUTPUT_PRICE_PER_MILLION_TOKENS) / 1_000_000;
+}
+
+/** Token usage of one generation from `inputImages` images, for models that don't report it. */
+export function estimateTokenUsage(inputImages = 1): TokenUsage {
+  return { inputTokens: inputImages * IMAGE_INPUT_TOKENS, outputTokens: IMAGE_OUTPUT_TOKENS };
+}
+
+/** Rough USD cost of `outputs` generations that each send `inputImagesPerCall` images. */
+export function estimateGenerationCost(outputs: number, inputImagesPerCall = 1): number {
+  return outputs * costOfTokens(estimateTokenUsage(inputImagesPerCall));
+}
+
+export function formatUsd(amount: number): string {
+  return amount < 0.01 && amount > 0 ? '<$0.01' : `$${amount.toFixed(2)}`;
+}
@@ -0,0 +1,145 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { ParameterError, parseParameters, type StyleParameters } from './parameters';
+import { MAX_OUTFIT_DESCRIPTION_LENGTH, MAX_PROMPT_TEMPLATE_LENGTH, STYLE_ICON_NAMES, type ArtisticStyleInput, type StyleId } from './styles';
+
+export const RECIPE_FORMAT = 'andy-storm.recipe';
+
+export const RECIPE_VERSION = 1;
+
+/** The key in `#recipe=...` links. */
+export const RECIPE_HASH_KEY = 'recipe';
+
+export type RecipeStyle = ArtisticStyleInput & { id: StyleId };
+
+/**
+ * Everything needed to reproduce a look on another photo. The style is stored
+ * as a full snapshot, prompt included, so a link keeps producing the same look
+ * after the built-in prompts change or on a machine without the custom style.
+ */
+export interface Recipe {
+  format: typeof RECIPE_FORMAT;
+  version: number;
+  mode: 'style' | 'outfit';
+  style: RecipeStyle | null;
+  parameters: StyleParameters | null;
+  outfitDescription: string | null;
+  /** The model the look was made with, when known. */
+  model: string | null;
+  variants: number;
+}
+
+export type RecipeSettings = Omit<Recipe, 'format' | 'version'>;
+
+export class RecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeError';
+  }
+}
+
+export function createRecipe(settings: RecipeSettings): Recipe {
+  return { format: RECIPE_FORMAT, version: RECIPE_VERSION, ...settings };
+}
+
+function parseRecipeStyle(value: any): RecipeStyle | null {
+  if (value == null) return null;
+  if (
+    typeof value.id !== 'string'
+    || typeof value.label !== 'string'
+    || typeof value.promptTemplate !== 'string'
+    || !value.promptTemplate.trim()
+    || value.promptTemplate.length > MAX_PROMPT_TEMPLATE_LENGTH
+  ) {
+    throw new RecipeError('The recipe has an invalid style.');
+  }
+  return {
+    id: value.id,
+    label: value.label,
+    icon: STYLE_ICON_NAMES.includes(value.icon) ? value.icon : 'brush',
+    description: typeof value.description === 'string' ? value.description : '',
+    promptTemplate: value.promptTemplate,
+  };
+}
+
+function parseRecipeParameters(value: unknown): StyleParameters | null {
+  if (value == null) return null;
+  try {
+    return parseParameters(value);
+  } catch (error) {
+    if (error instanceof ParameterError) {
+      throw new RecipeError(`The recipe has invalid style settings. ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validates a recipe from a link or file, field by field with the same rules
+ * as the server, and rejects the whole recipe if any field is invalid. Older
+ * versions are accepted (and would be upgraded here); recipes from a newer app
+ * version are rejected.
+ */
+export function parseRecipe(value: any): Recipe {
+  if (value?.format !== RECIPE_FORMAT) {
+    throw new RecipeError('This is not a recipe.');
+  }
+  if (!Number.isInteger(value.version) || value.version < 1 || value.version > RECIPE_VERSION) {
+    throw new RecipeError(`Recipe version ${value.version} is not supported. Update the app and try again.`);
+  }
+  if (value.mode !== 'style' && value.mode !== 'outfit') {
+    throw new RecipeError(`Unknown recipe mode "${value.mode}".`);
+  }
+  if (value.outfitDescription != null && (typeof value.outfitDescription !== 'string' || value.outfitDescription.length > MAX_OUTFIT_DESCRIPTION_LENGTH)) {
+    throw new RecipeError('The recipe has an invalid outfit description.');
+  }
+  if (value.model != null && typeof value.model !== 'string') {
+    throw new RecipeError('The recipe names an invalid model.');
+  }
+  if (value.variants != null && !(Number.isInteger(value.variants) && value.variants >= 1 && value.variants <= 4)) {
+    throw new RecipeError('The recipe has an invalid number of variants.');
+  }
+  return createRecipe({
+    mode: value.mode,
+    style: parseRecipeStyle(value.style),
+    parameters: parseRecipeParameters(value.parameters),
+    outfitDescription: value.outfitDescription ?? null,
+    model: value.model ?? null,
+    variants: value.variants ?? 1,
+  });
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach((byte) => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/** Compresses a recipe into a URL-safe string; prompts shrink well. */
+export function encodeRecipe(recipe: Recipe): string {
+  return toBase64Url(deflateSync(strToU8(JSON.stringify(recipe)), { level: 9 }));
+}
+
+export function decodeRecipe(encoded: string): Recipe {
+  let json: unknown;
+  try {
+    json = JSON.parse(strFromU8(inflateSync(fromBase64Url(encoded))));
+  } catch {
+    throw new RecipeError('This recipe link is damaged or incomplete.');
+  }
+  return parseRecipe(json);
+}
+
+/** Reads a recipe from a location hash such as `#recipe=...`, or null when there is none. */
+export function recipeFromHash(hash: string): Recipe | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(RECIPE_HASH_KEY);
+  return encoded ? decodeRecipe(encoded) : null;
+}
+
+export function recipeToHash(recipe: Recipe): string {
+  return `#${RECIPE_HASH_KEY}=${encodeRecipe(recipe)}`;
+}
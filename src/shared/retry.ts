@@ -0,0 +1,56 @@
+import { GenerationError } from './errors';
+
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+}
+
+function abortError() {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` fires. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `task` and retries it with exponential backoff and jitter while it
+ * fails with a retryable `GenerationError`. A server-provided retry delay
+ * replaces the computed one, and isn't capped by `maxDelayMs`: retrying any
+ * sooner would only be refused again.
+ */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 2, baseDelayMs = 1000, maxDelayMs = 15_000, signal, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (!(error instanceof GenerationError) || !error.retryable || attempt >= retries || signal?.aborted) {
+        throw error;
+      }
+      const backoff = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      const delayMs = error.retryAfterMs ?? Math.min(maxDelayMs, backoff);
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
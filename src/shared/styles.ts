@@ -0,0 +1,146 @@
+export type StyleId = string;
+
+/** `refine` is a follow-up instruction applied to an earlier result. */
+export type TransformMode = 'style' | 'outfit' | 'refine';
+
+/**
+ * A style the picker can offer. Built-in and user-defined styles share this
+ * shape; the only difference is that built-ins can't be edited or deleted.
+ */
+export interface ArtisticStyle {
+  id: StyleId;
+  label: string;
+  icon: StyleIconName;
+  description: string;
+  promptTemplate: string;
+  builtIn: boolean;
+}
+
+export const STYLE_ICON_NAMES = [
+  'sparkles', 'palette', 'pencil', 'zap', 'pencil-line', 'layout-grid',
+  'brush', 'feather', 'flower', 'leaf', 'mountain', 'waves',
+  'sun', 'moon', 'flame', 'droplet', 'camera', 'star',
+] as const;
+
+export type StyleIconName = typeof STYLE_ICON_NAMES[number];
+
+export type ArtisticStyleInput = Pick<ArtisticStyle, 'label' | 'icon' | 'description' | 'promptTemplate'>;
+
+export const PROMPT_VARIABLES = ['subject', 'intensity', 'palette'] as const;
+
+export type PromptVariable = typeof PROMPT_VARIABLES[number];
+
+export type PromptVariables = Partial<Record<PromptVariable, string>>;
+
+export const DEFAULT_PROMPT_VARIABLES: Record<PromptVariable, string> = {
+  subject: 'this image',
+  intensity: 'full',
+  palette: 'the colors that best suit the style',
+};
+
+export const BUILT_IN_STYLES: ArtisticStyle[] = [
+  {
+    id: 'watercolor',
+    label: 'Watercolor',
+    icon: 'sparkles',
+    description: 'Soft splashes and vibrant drips',
+    promptTemplate: 'Transform {subject} into a vibrant watercolor splash effect sketch. The style should be artistic, with visible brush strokes, paint drips, and a beautiful blend of colors, while maintaining the core subject of the original photo.',
+    builtIn: true,
+  },
+  {
+    id: 'oil',
+    label: 'Oil Painting',
+    icon: 'palette',
+    description: 'Thick strokes and rich textures',
+    promptTemplate: 'Transform {subject} into a classic oil painting. Use thick, visible brush strokes, rich textures, and deep, vibrant colors. The final result should look like a masterpiece on canvas.',
+    builtIn: true,
+  },
+  {
+    id: 'charcoal',
+    label: 'Charcoal',
+    icon: 'pencil',
+    description: 'Rough, dramatic hand-drawn lines',
+    promptTemplate: 'Transform {subject} into a rough charcoal sketch. Use black and white tones, expressive hand-drawn lines, and smudged shading to create a dramatic, artistic feel.',
+    builtIn: true,
+  },
+  {
+    id: 'cyberpunk',
+    label: 'Cyberpunk',
+    icon: 'zap',
+    description: 'Neon glows and futuristic vibes',
+    promptTemplate: 'Transform {subject} into a neon cyberpunk style. Use high contrast, glowing edges, and a palette dominated by electric pink, blue, and purple. Add a futuristic, digital glitch aesthetic.',
+    builtIn: true,
+  },
+  {
+    id: 'pencil',
+    label: 'Pencil',
+    icon: 'pencil-line',
+    description: 'Classic graphite sketch',
+    promptTemplate: 'Transform {subject} into a detailed pencil drawing. Use fine graphite lines, realistic shading, and cross-hatching to create a classic, hand-sketched look on paper.',
+    builtIn: true,
+  },
+  {
+    id: 'popart',
+    label: 'Pop Art',
+    icon: 'layout-grid',
+    description: 'Bold colors and comic patterns',
+    promptTemplate: 'Transform {subject} into a bold pop art style. Use vibrant, flat colors, thick outlines, and halftone dot patterns reminiscent of 1960s comic book art.',
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_STYLE_ID: StyleId = 'watercolor';
+
+/**
+ * Fills `{subject}`, `{intensity}` and `{palette}` in a prompt template.
+ * Unknown placeholders are left untouched.
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables = {}): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!(PROMPT_VARIABLES as readonly string[]).includes(name)) {
+      return placeholder;
+    }
+    return variables[name as PromptVariable] || DEFAULT_PROMPT_VARIABLES[name as PromptVariable];
+  });
+}
+
+export const STYLE_PACK_FORMAT = 'andy-storm.style-pack';
+
+export const STYLE_PACK_VERSION = 1;
+
+/** The JSON shape teammates exchange to share custom styles. */
+export interface StylePack {
+  format: typeof STYLE_PACK_FORMAT;
+  version: number;
+  styles: (ArtisticStyleInput & { id: StyleId })[];
+}
+
+/** What importing a pack did. `replaced` lists the custom styles it overwrote. */
+export interface StyleImportResult {
+  styles: ArtisticStyle[];
+  replaced: ArtisticStyle[];
+}
+
+export function createStylePack(styles: ArtisticStyle[]): StylePack {
+  return {
+    format: STYLE_PACK_FORMAT,
+    version: STYLE_PACK_VERSION,
+    styles: styles
+      .filter((style) => !style.builtIn)
+      .map(({ id, label, icon, description, promptTemplate }) => ({ id, label, icon, description, promptTemplate })),
+  };
+}
+
+export const SUPPORTED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+// Matches the "up to 10MB" promise on the upload screen.
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export const MAX_OUTFIT_DESCRIPTION_LENGTH = 1000;
+
+// Reference photos of garments for an outfit swap, e.g. a top and a pair of shoes.
+export const MAX_GARMENT_IMAGES = 4;
+
+export const MAX_INSTRUCTION_LENGTH = 500;
+
+export const MAX_PROMPT_TEMPLATE_LENGTH = 2000;
@@ -0,0 +1,93 @@
+import type { GenerationErrorCode } from './errors';
+import { costOfTokens, type TokenUsage } from './pricing';
+import type { TransformMode } from './styles';
+
+export type { TokenUsage } from './pricing';
+
+/** `pending` marks a call still in flight; it counts toward the quotas but not the summaries. */
+export type UsageOutcome = 'pending' | 'success' | 'cancelled' | 'error' | GenerationErrorCode;
+
+/** One call to the image model, successful or not. */
+export interface UsageEvent extends TokenUsage {
+  mode: TransformMode;
+  model: string | null;
+  outcome: UsageOutcome;
+  latencyMs: number;
+  createdAt: string;
+}
+
+export interface UsageSummary extends TokenUsage {
+  requests: number;
+  successes: number;
+  failures: number;
+  costUsd: number;
+  averageLatencyMs: number;
+}
+
+/** Generation requests allowed per UTC day. Null means unlimited. */
+export interface QuotaLimits {
+  daily: number | null;
+  perUser: number | null;
+}
+
+export interface QuotaStatus {
+  limits: QuotaLimits;
+  used: { total: number; user: number };
+  /** Which limit is used up, or null while requests are still allowed. */
+  reached: 'daily' | 'perUser' | null;
+  resetsAt: string;
+}
+
+/** Token usage as the server reports it alongside each generated image. */
+export interface GenerationUsage extends TokenUsage {
+  model: string;
+  latencyMs: number;
+}
+
+export const NO_LIMITS: QuotaLimits = { daily: null, perUser: null };
+
+/**
+ * Names who per-user quotas are counted against. There are no accounts, so
+ * each browser sends a random id of its own; requests without one share a bucket.
+ */
+export const USER_ID_HEADER = 'X-Studio-User';
+
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+export function startOfUtcDay(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function nextUtcDay(now = new Date()): Date {
+  const start = startOfUtcDay(now);
+  start.setUTCDate(start.getUTCDate() + 1);
+  return start;
+}
+
+export function summarizeUsage(events: Pick<UsageEvent, 'outcome' | 'inputTokens' | 'outputTokens' | 'latencyMs'>[]): UsageSummary {
+  const summary = events.reduce(
+    (totals, event) => ({
+      ...totals,
+      requests: totals.requests + 1,
+      successes: totals.successes + (event.outcome === 'success' ? 1 : 0),
+      failures: totals.failures + (event.outcome === 'success' ? 0 : 1),
+      inputTokens: totals.inputTokens + event.inputTokens,
+      outputTokens: totals.outputTokens + event.outputTokens,
+      averageLatencyMs: totals.averageLatencyMs + event.latencyMs,
+    }),
+    { requests: 0, successes: 0, failures: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, averageLatencyMs: 0 },
+  );
+  return {
+    ...summary,
+    costUsd: costOfTokens(summary),
+    averageLatencyMs: summary.requests ? summary.averageLatencyMs / summary.requests : 0,
+  };
+}
+
+/** Works out which limit, if any, a new request would exceed. */
+export function quotaStatus(limits: QuotaLimits, used: QuotaStatus['used'], now = new Date()): QuotaStatus {
+  const reached = limits.daily !== null && used.total >= limits.daily
+    ? 'daily'
+    : limits.perUser !== null && used.user >= limits.perUser ? 'perUser' : null;
+  return { limits, used, reached, resetsAt: nextUtcDay(now).toISOString() };
+}